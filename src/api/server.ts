@@ -4,7 +4,10 @@ import {
   getPositions,
   getFullHistory,
   getActiveMonitors,
+  getMonitors,
   isTradingPaused,
+  getPauseMode,
+  monitorExpiry,
   type Position,
   type TradeHistoryEntry,
 } from "../positions/manager.js";
@@ -13,6 +16,9 @@ import {
   getUsdcBalanceFormatted,
   getWalletAddress,
 } from "../chain/wallet.js";
+import { getCandles, isCandleInterval, CANDLE_INTERVALS } from "../pricing/index.js";
+import { getDexScreenerStats } from "../scanner/dexscreener.js";
+import { strategyFor } from "../strategies/index.js";
 import { logger } from "../utils/logger.js";
 
 // ── State (set once on startup) ────────────────────────────────────
@@ -87,10 +93,33 @@ async function handleStatus(_req: IncomingMessage, res: ServerResponse): Promise
     maxPositions: config.maxPositions,
     totalTrades: history.length,
     paused: isTradingPaused(),
+    pauseMode: getPauseMode(),
     dryRun: config.dryRun,
+    pricing: pricingHealth(),
   });
 }
 
+/** Price-source order and DexScreener client health */
+function pricingHealth() {
+  const ds = getDexScreenerStats();
+  const iso = (ms?: number) => (ms !== undefined ? new Date(ms).toISOString() : null);
+  return {
+    sources: config.priceSources,
+    dexScreener: {
+      healthy: ds.healthy,
+      requests: ds.requests,
+      cacheHitRate: round(ds.hitRate * 100),
+      rateLimited: ds.rateLimited,
+      failures: ds.failures,
+      budgetUsed: ds.budgetUsed,
+      budgetPerMinute: ds.budgetPerMinute,
+      backoffUntil: iso(ds.backoffUntil),
+      lastSuccessAt: iso(ds.lastSuccessAt),
+      lastError: ds.lastError ? { message: ds.lastError.message, at: iso(ds.lastError.at) } : null,
+    },
+  };
+}
+
 async function handleTrades(_req: IncomingMessage, res: ServerResponse): Promise<void> {
   const history = getFullHistory();
 
@@ -148,6 +177,71 @@ async function handlePositions(_req: IncomingMessage, res: ServerResponse): Prom
   });
 }
 
+async function handleMonitors(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const monitors = getMonitors().map((m) => {
+    const strategy = strategyFor(m);
+    const { summary, details } = strategy.describe(m);
+    const expiry = monitorExpiry(m);
+    return {
+      address: m.address,
+      symbol: m.symbol,
+      type: strategy.type,
+      active: m.active,
+      entryPrice: m.entryPrice,
+      stopLossPrice: m.stopLossPrice,
+      pairAddress: m.pairAddress ?? null,
+      addedAt: m.addedAt,
+      expiresAt: expiry ?? null,
+      expiryAction: expiry !== undefined ? (m.expiryAction ?? "sell") : null,
+      summary,
+      details,
+    };
+  });
+
+  json(res, { monitors });
+}
+
+/**
+ * GET /api/prices/:address?interval=1m|5m|1h&limit=N — OHLC candles recorded
+ * by the monitor loop, oldest first (default: every 5m candle kept).
+ */
+function handlePrices(_req: IncomingMessage, res: ServerResponse, address: string, query: URLSearchParams): void {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    json(res, { error: "Invalid token address" }, 400);
+    return;
+  }
+
+  const interval = query.get("interval") ?? "5m";
+  if (!isCandleInterval(interval)) {
+    json(res, { error: `interval must be one of ${CANDLE_INTERVALS.join(", ")}` }, 400);
+    return;
+  }
+
+  const limit = query.has("limit") ? parseInt(query.get("limit")!, 10) : undefined;
+  if (limit !== undefined && !(limit > 0)) {
+    json(res, { error: "limit must be a positive integer" }, 400);
+    return;
+  }
+
+  const monitor = getMonitors().find((m) => m.address.toLowerCase() === address.toLowerCase());
+  const candles = getCandles(address, interval, limit).map((c) => ({
+    time: new Date(c.t).toISOString(),
+    timestamp: c.t,
+    open: c.o,
+    high: c.h,
+    low: c.l,
+    close: c.c,
+    ticks: c.n,
+  }));
+
+  json(res, {
+    address: address.toLowerCase(),
+    symbol: monitor?.symbol ?? null,
+    interval,
+    candles,
+  });
+}
+
 function handleHealth(_req: IncomingMessage, res: ServerResponse): void {
   json(res, { status: "ok", uptime: process.uptime() });
 }
@@ -323,6 +417,9 @@ async function router(req: IncomingMessage, res: ServerResponse): Promise<void>
   }
 
   try {
+    const pricesMatch = path.match(/^\/api\/prices\/([^/]+)\/?$/);
+    if (pricesMatch) return handlePrices(req, res, pricesMatch[1], url.searchParams);
+
     switch (path) {
       case "/":
         return handleDashboard(req, res);
@@ -332,6 +429,8 @@ async function router(req: IncomingMessage, res: ServerResponse): Promise<void>
         return await handleTrades(req, res);
       case "/api/positions":
         return await handlePositions(req, res);
+      case "/api/monitors":
+        return await handleMonitors(req, res);
       case "/health":
         return handleHealth(req, res);
       default:
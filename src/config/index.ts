@@ -31,12 +31,26 @@ interface AppConfig {
   maxPositions: number;
   /** Slippage tolerance in basis points (100 = 1%) */
   slippageBps: number;
+  /** Refuse a swap whose quote is this % worse than the signal price (0 disables) */
+  maxPriceDeviationPercent: number;
+  /** Protective sells (stop-loss, expiry) refused by the deviation check go through anyway after this long */
+  priceDeviationMaxDeferSec: number;
   /** If true, log trades but don't execute them */
   dryRun: boolean;
   /** HTTP API port for the public dashboard */
   apiPort: number;
   /** Price monitor interval in seconds (default 30) */
   monitorIntervalSec: number;
+  /** Poll interval in seconds for monitors whose price is near a trigger (default 5) */
+  fastPollIntervalSec: number;
+  /** Poll at the fast rate while price is within this % of a trigger (0 disables) */
+  fastPollBandPercent: number;
+  /** Price sources in priority order — later ones fill in tokens earlier ones couldn't price */
+  priceSources: string[];
+  /** Emergency-sell when pool liquidity drops by this % within the window (0 disables) */
+  liquidityDrainPercent: number;
+  /** Window for the liquidity-drain check, in seconds */
+  liquidityDrainWindowSec: number;
 }
 
 export const config: AppConfig = {
@@ -48,9 +62,16 @@ export const config: AppConfig = {
   ethWarnThreshold: 0n,
   maxPositions: 10,
   slippageBps: 100,
+  maxPriceDeviationPercent: 10,
+  priceDeviationMaxDeferSec: 120,
   dryRun: false,
   apiPort: 3000,
   monitorIntervalSec: 30,
+  fastPollIntervalSec: 5,
+  fastPollBandPercent: 3,
+  priceSources: ["dexscreener", "onchain"],
+  liquidityDrainPercent: 50,
+  liquidityDrainWindowSec: 300,
 };
 
 export function loadConfig(): void {
@@ -65,9 +86,23 @@ export function loadConfig(): void {
   config.ethWarnThreshold = parseEther(optionalEnv("ETH_WARN_THRESHOLD", "0.001"));
   config.maxPositions = parseInt(optionalEnv("MAX_POSITIONS", "10"), 10);
   config.slippageBps = parseInt(optionalEnv("SLIPPAGE_BPS", "100"), 10);
+  config.maxPriceDeviationPercent = parseFloat(optionalEnv("MAX_PRICE_DEVIATION_PCT", "10"));
+  config.priceDeviationMaxDeferSec = parseInt(optionalEnv("PRICE_DEVIATION_MAX_DEFER_SEC", "120"), 10);
   config.dryRun = optionalEnv("DRY_RUN", "false").toLowerCase() === "true";
   config.apiPort = parseInt(optionalEnv("PORT", "3000"), 10);
   config.monitorIntervalSec = parseInt(optionalEnv("MONITOR_INTERVAL_SEC", "30"), 10);
+  // The scheduler wakes at the fast rate, so it can't be slower than the normal one
+  config.fastPollIntervalSec = Math.max(
+    1,
+    Math.min(parseInt(optionalEnv("FAST_POLL_INTERVAL_SEC", "5"), 10), config.monitorIntervalSec)
+  );
+  config.fastPollBandPercent = parseFloat(optionalEnv("FAST_POLL_BAND_PCT", "3"));
+  config.priceSources = optionalEnv("PRICE_SOURCES", "dexscreener,onchain")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  config.liquidityDrainPercent = parseFloat(optionalEnv("LIQUIDITY_DRAIN_PCT", "50"));
+  config.liquidityDrainWindowSec = parseInt(optionalEnv("LIQUIDITY_DRAIN_WINDOW_SEC", "300"), 10);
 }
 
 // ── Base chain constants ───────────────────────────────────────────
@@ -78,6 +113,11 @@ export const WETH_ADDRESS: Address = "0x4200000000000000000000000000000000000006
 /** 0x Exchange Proxy on Base */
 export const ZEROX_EXCHANGE_PROXY: Address = "0xDef1C0ded9bec7F1a1670819833240f027b25EfF";
 
+/** DEX factories the on-chain price source discovers pools through */
+export const UNISWAP_V2_FACTORY: Address = "0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6";
+export const UNISWAP_V3_FACTORY: Address = "0x33128a8fC17869897dcE68Ed026d694621f6FDfD";
+export const AERODROME_FACTORY: Address = "0x420DD381b31aEf6683db6B902084cB0FFECe40Da";
+
 /** USDC has 6 decimals on Base */
 export const USDC_DECIMALS = 6;
 
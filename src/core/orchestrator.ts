@@ -4,65 +4,136 @@ import {
   getEthBalance,
   getEthBalanceFormatted,
 } from "../chain/wallet.js";
-import { getTokenPrice } from "../scanner/dexscreener.js";
+import { getTokenQuotes, recordPrice, type TokenQuote } from "../pricing/index.js";
 import {
   getActiveMonitors,
-  getPosition,
-  updateMonitor,
+  getMonitor,
   removeMonitor,
-  removePosition,
   forceSellByAddress,
+  getPauseMode,
+  monitorExpiry,
+  updateMonitor,
+  getWatchlist,
+  setWatchAlerts,
+  pinnedPairs,
   type MonitoredToken,
+  type WatchEntry,
 } from "../positions/manager.js";
-import { buyToken } from "../swap/executor.js";
 import {
-  notify,
-  notifyStopLossHit,
-  notifyError,
+  getStrategies,
+  strategyFor,
+  clearPausedTradeAlerts,
+  tradingBlocked,
+  monitorPriceCheck,
+} from "../strategies/index.js";
+import {
   notifyLowEth,
-  notifyMilestone,
-  notifyBuyback,
-  notifyBudgetExhausted,
+  notifyLiquidityExit,
+  notifyExpiry,
+  notifyWatchAlert,
 } from "../telegram/bot.js";
 import { logger } from "../utils/logger.js";
 
 // ── State ──────────────────────────────────────────────────────────
 
-const ETH_CHECK_INTERVAL = 10; // Check ETH every N ticks (10 * 30s = 5 min)
+const ETH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
 
 let tickInterval: ReturnType<typeof setInterval> | null = null;
-let tickCount = 0;
 let isTicking = false;
+let lastEthCheck = 0;
 let lastEthWarning = 0;
 
+/** When each monitor is next due for a price check, keyed by lowercase token address */
+const schedule = new Map<string, { dueAt: number; fast: boolean }>();
+let watchlistDueAt = 0;
+
+/** Recent pool liquidity samples per lowercase token address (liquidity-drain check) */
+const liquiditySamples = new Map<string, Array<{ at: number; usd: number; source: string }>>();
+
 // ── Core monitor tick ──────────────────────────────────────────────
 
 /**
- * Core monitoring tick — runs every 30 seconds.
- * For each active monitor:
- *   1. Fetch current price
- *   2. If price <= stopLossPrice → sell all holdings, deactivate monitor
- *   3. Check for 25% price increase milestones → notify on Telegram
+ * Core monitoring tick — runs every FAST_POLL_INTERVAL_SEC (5s by default),
+ * but only checks the monitors that are due (see scheduleNextCheck).
+ *   1. Fetch current prices for the due monitors in one batched request and
+ *      record them in the price history (src/pricing/history.ts)
+ *   2. If pool liquidity collapsed within the window → emergency sell (any monitor type)
+ *   3. If the monitor expired → sell everything, or notify and deactivate (any monitor type)
+ *   4. Hand each monitor to its strategy (stop-loss, milestones, buys, ...)
+ *   5. Fire any watchlist price alerts (alert-only, never trades)
+ *
+ * At most one batched DexScreener request goes out per tick, however many
+ * monitors are in fast mode.
+ *
+ * Pause mode 'all' skips monitors entirely; 'trading' evaluates them but
+ * turns every buy/sell into a one-time alert (see tradingBlocked).
  */
 async function tick(): Promise<void> {
   if (isTicking) return;
   isTicking = true;
-  tickCount++;
 
   try {
+    const now = Date.now();
+
     // Periodic ETH balance check
-    if (tickCount % ETH_CHECK_INTERVAL === 0) {
+    if (now - lastEthCheck >= ETH_CHECK_INTERVAL_MS) {
+      lastEthCheck = now;
       await checkEthBalance();
     }
 
-    const monitors = getActiveMonitors();
-    if (monitors.length === 0) return;
+    // Let strategies with background jobs (DCA) pick up added/removed monitors
+    syncStrategies();
+
+    const pauseMode = getPauseMode();
+    if (pauseMode === "none") clearPausedTradeAlerts();
+    if (pauseMode === "all") return;
+
+    const active = getActiveMonitors();
+    pruneSchedule(active);
+
+    // Half a tick of slack so a monitor due "now + a few ms" isn't pushed back a whole tick
+    const horizon = now + (config.fastPollIntervalSec * 1000) / 2;
+    const monitors = active.filter((m) => (schedule.get(m.address.toLowerCase())?.dueAt ?? 0) <= horizon);
+    const watchlist = watchlistDueAt <= horizon ? getWatchlist() : [];
+    if (watchlist.length > 0) watchlistDueAt = now + config.monitorIntervalSec * 1000;
+    if (monitors.length === 0 && watchlist.length === 0) return;
+
+    // One batched price lookup for every due monitor and watched token, so all
+    // strategies evaluate against prices taken at the same moment.
+    const addresses = new Set([...monitors, ...watchlist].map((t) => t.address.toLowerCase()));
+    // Pinned monitors are priced from their own pair; a watch on the same token shares that quote
+    const quotes = await getTokenQuotes([...addresses] as Address[], pinnedPairs(monitors));
 
     for (const monitor of monitors) {
+      const quote = quotes.get(monitor.address.toLowerCase());
+      if (!quote) {
+        logger.warn({ token: monitor.address, symbol: monitor.symbol }, "Could not fetch price — skipping");
+        scheduleNextCheck(monitor, null, now);
+        continue;
+      }
+
+      recordPrice(monitor.address, quote.priceUsd, now);
+
       try {
-        await processMonitor(monitor);
+        if (await checkLiquidityDrain(monitor, quote)) continue;
+        if (await checkExpiry(monitor, quote.priceUsd)) continue;
+        await processMonitor(monitor, quote);
       } catch (err) {
         logger.error({ err, symbol: monitor.symbol }, "Error processing monitor");
+      } finally {
+        // The strategy may have moved the stop (trailing, break-even) or removed the monitor
+        const updated = getMonitor(monitor.address);
+        if (updated?.active) scheduleNextCheck(updated, quote.priceUsd, now);
+      }
+    }
+
+    for (const entry of watchlist) {
+      const quote = quotes.get(entry.address.toLowerCase());
+      if (!quote) continue;
+      try {
+        await checkWatchAlerts(entry, quote);
+      } catch (err) {
+        logger.error({ err, symbol: entry.symbol }, "Error checking watchlist alerts");
       }
     }
   } catch (err) {
@@ -73,25 +144,17 @@ async function tick(): Promise<void> {
 }
 
 /**
- * Process a single monitored token.
- * Branches behavior based on monitor type:
- *  - 'standard': stop-loss + 25% milestones (original behavior)
- *  - 'simple':   stop-loss (auto-sell if position, else notify-only) + custom % milestones
- *  - 'buyback':  custom % milestones + auto-buy on cumulative drop levels
+ * Process a single monitored token by handing the tick to its strategy
+ * (see src/strategies). Unknown types fall back to 'standard'.
  */
-async function processMonitor(monitor: MonitoredToken): Promise<void> {
-  const currentPrice = await getTokenPrice(monitor.address as Address);
-  if (currentPrice === null) {
-    logger.warn({ token: monitor.address, symbol: monitor.symbol }, "Could not fetch price — skipping");
-    return;
-  }
-
-  const monitorType = monitor.type ?? "standard";
+async function processMonitor(monitor: MonitoredToken, quote: TokenQuote): Promise<void> {
+  const strategy = strategyFor(monitor);
+  const currentPrice = quote.priceUsd;
 
   logger.debug(
     {
       symbol: monitor.symbol,
-      type: monitorType,
+      type: strategy.type,
       currentPrice,
       stopLoss: monitor.stopLossPrice,
       entryPrice: monitor.entryPrice,
@@ -100,271 +163,232 @@ async function processMonitor(monitor: MonitoredToken): Promise<void> {
     "Price check"
   );
 
-  switch (monitorType) {
-    case "standard":
-      await processStandard(monitor, currentPrice);
-      break;
-    case "simple":
-      await processSimple(monitor, currentPrice);
-      break;
-    case "buyback":
-      await processBuyback(monitor, currentPrice);
-      break;
-    default:
-      await processStandard(monitor, currentPrice);
+  const invalid = strategy.validate(monitor);
+  if (invalid) {
+    logger.warn({ symbol: monitor.symbol, type: strategy.type, reason: invalid }, "Invalid monitor parameters — skipping");
+    return;
+  }
+
+  await strategy.evaluate(monitor, currentPrice, quote);
+}
+
+function syncStrategies(): void {
+  for (const strategy of getStrategies()) {
+    strategy.sync?.();
   }
 }
 
-// ── Standard monitor (original behavior) ───────────────────────────
+// ── Adaptive polling ───────────────────────────────────────────────
 
-async function processStandard(monitor: MonitoredToken, currentPrice: number): Promise<void> {
-  // ── Stop-loss check ────────────────────────────────────────────
-  if (currentPrice <= monitor.stopLossPrice) {
+/**
+ * Decide when a monitor is next checked: every FAST_POLL_INTERVAL_SEC while
+ * the price is within FAST_POLL_BAND_PCT of one of its strategy's trigger
+ * prices or past one, otherwise every MONITOR_INTERVAL_SEC. Without a price (quote
+ * missing) it falls back to the normal interval.
+ */
+function scheduleNextCheck(monitor: MonitoredToken, currentPrice: number | null, now: number): void {
+  const key = monitor.address.toLowerCase();
+  const distance = currentPrice === null ? null : triggerDistancePercent(monitor, currentPrice);
+  const fast = distance !== null && config.fastPollBandPercent > 0 && distance <= config.fastPollBandPercent;
+  const intervalSec = fast ? config.fastPollIntervalSec : config.monitorIntervalSec;
+
+  const previous = schedule.get(key);
+  if (fast !== (previous?.fast ?? false)) {
     logger.info(
-      { symbol: monitor.symbol, currentPrice, stopLoss: monitor.stopLossPrice },
-      "STOP-LOSS TRIGGERED — selling all holdings"
+      { symbol: monitor.symbol, currentPrice, distancePercent: distance?.toFixed(2), intervalSec },
+      fast ? "Price near a trigger — polling faster" : "Price left the trigger band — normal polling"
     );
+  }
 
-    const result = await forceSellByAddress(monitor.address, monitor.symbol, "stop-loss");
-
-    if (result.success) {
-      const lossPercent = ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100;
-      await notifyStopLossHit(
-        monitor.symbol,
-        currentPrice,
-        monitor.stopLossPrice,
-        lossPercent,
-        result.txHash ?? "",
-        true
-      );
-      removeMonitor(monitor.address);
-      logger.info({ symbol: monitor.symbol }, "Monitor removed after stop-loss sell");
-    } else {
-      await notifyStopLossHit(
-        monitor.symbol,
-        currentPrice,
-        monitor.stopLossPrice,
-        0,
-        "",
-        false
-      );
-      logger.error(
-        { symbol: monitor.symbol, error: result.error },
-        "Stop-loss sell FAILED — will retry next tick"
-      );
-    }
+  schedule.set(key, { dueAt: now + intervalSec * 1000, fast });
+}
 
-    return;
+/**
+ * % distance from the current price to the nearest trigger, or null if the
+ * strategy reports none. A trigger the price is already past counts as 0, so
+ * a stop whose sell failed or was deferred keeps fast polling through a gap.
+ */
+function triggerDistancePercent(monitor: MonitoredToken, currentPrice: number): number | null {
+  if (currentPrice <= 0) return null;
+  const triggers = (strategyFor(monitor).triggerPrices?.(monitor) ?? []).filter((t) => t.price > 0);
+  if (triggers.length === 0) return null;
+  return Math.min(
+    ...triggers.map(({ price, fires }) => {
+      const crossed = (fires === "below" && currentPrice <= price) || (fires === "above" && currentPrice >= price);
+      return crossed ? 0 : (Math.abs(currentPrice - price) / currentPrice) * 100;
+    })
+  );
+}
+
+/** Drop schedule entries for monitors that were removed or paused */
+function pruneSchedule(active: MonitoredToken[]): void {
+  const keys = new Set(active.map((m) => m.address.toLowerCase()));
+  for (const key of schedule.keys()) {
+    if (!keys.has(key)) schedule.delete(key);
   }
+}
 
-  // ── 25% milestone check ────────────────────────────────────────
-  if (monitor.entryPrice > 0) {
-    const gainPercent = ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100;
-    const currentMilestone = Math.floor(gainPercent / 25) * 25;
-
-    if (currentMilestone > 0 && currentMilestone > monitor.lastNotifiedMilestone) {
-      await notifyMilestone(
-        monitor.symbol,
-        currentPrice,
-        monitor.entryPrice,
-        currentMilestone
-      );
-      updateMonitor(monitor.address, { lastNotifiedMilestone: currentMilestone });
-      logger.info(
-        { symbol: monitor.symbol, milestone: currentMilestone, price: currentPrice },
-        "Price milestone reached"
-      );
-    }
+// ── Watchlist alerts ───────────────────────────────────────────────
+
+/**
+ * Fire every level the price has reached on a watched token. Alerts are
+ * one-shot: a fired level is dropped, and the entry with it once none are left.
+ */
+async function checkWatchAlerts(entry: WatchEntry, quote: TokenQuote): Promise<void> {
+  const price = quote.priceUsd;
+  const fired = entry.alerts.filter((a) =>
+    a.direction === "above" ? price >= a.price : price <= a.price
+  );
+  if (fired.length === 0) return;
+
+  const pending = entry.alerts.filter((a) => !fired.includes(a));
+  setWatchAlerts(entry.address, pending);
+
+  for (const alert of fired) {
+    logger.info({ symbol: entry.symbol, level: alert.price, direction: alert.direction, price }, "Watchlist alert fired");
+    await notifyWatchAlert(
+      entry.symbol,
+      entry.address,
+      alert,
+      price,
+      quote.url || entry.dexScreenerUrl || "",
+      pending.length
+    );
   }
 }
 
-// ── Simple monitor ─────────────────────────────────────────────────
+// ── Liquidity drain (rug-pull) exit ────────────────────────────────
 
-async function processSimple(monitor: MonitoredToken, currentPrice: number): Promise<void> {
-  const notifyPct = monitor.notifyPercent ?? 25;
+/**
+ * Track pool liquidity and emergency-sell when it falls by more than
+ * `config.liquidityDrainPercent` from its peak within the window — on Base a rug
+ * usually drains the pool before the price print catches up.
+ * Returns true if the monitor was handled (sold, or a failed sell to retry) and
+ * the normal strategy should be skipped this tick.
+ */
+async function checkLiquidityDrain(monitor: MonitoredToken, quote: TokenQuote): Promise<boolean> {
+  if (config.liquidityDrainPercent <= 0 || quote.liquidityUsd === undefined) return false;
+  // e.g. pending limit buys hold nothing yet
+  if (strategyFor(monitor).skipLiquidityExit) return false;
+
+  const key = monitor.address.toLowerCase();
+  const now = Date.now();
+  const windowStart = now - config.liquidityDrainWindowSec * 1000;
+  // Sources measure liquidity differently (and may pick different pools) — only
+  // compare samples from the source that produced this quote
+  const samples = (liquiditySamples.get(key) ?? []).filter(
+    (s) => s.at >= windowStart && s.source === quote.source
+  );
+  samples.push({ at: now, usd: quote.liquidityUsd, source: quote.source });
+  liquiditySamples.set(key, samples);
 
-  // ── Stop-loss check ────────────────────────────────────────────
-  if (monitor.stopLossPrice > 0 && currentPrice <= monitor.stopLossPrice) {
-    logger.info(
-      { symbol: monitor.symbol, currentPrice, stopLoss: monitor.stopLossPrice },
-      "SIMPLE STOP-LOSS TRIGGERED — attempting sell"
-    );
+  const peak = Math.max(...samples.map((s) => s.usd));
+  if (peak <= 0) return false;
+  const dropPercent = ((peak - quote.liquidityUsd) / peak) * 100;
+  if (dropPercent < config.liquidityDrainPercent) return false;
 
-    // Always attempt to sell from wallet (forceSellByAddress checks actual wallet balance)
-    const result = await forceSellByAddress(monitor.address, monitor.symbol, "stop-loss");
-    const lossPercent = ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100;
-
-    if (result.success) {
-      await notifyStopLossHit(
-        monitor.symbol,
-        currentPrice,
-        monitor.stopLossPrice,
-        lossPercent,
-        result.txHash ?? "",
-        true
-      );
-
-      // Also remove tracked position if one exists
-      const position = getPosition(monitor.address);
-      if (position) {
-        removePosition(monitor.address);
-      }
-    } else {
-      // Sell failed (possibly zero balance — wallet doesn't hold the token)
-      const isZeroBalance = result.error?.includes("Zero token balance");
-
-      if (isZeroBalance) {
-        logger.info(
-          { symbol: monitor.symbol },
-          "SIMPLE STOP-LOSS — no tokens in wallet, notify only"
-        );
-        await notify(
-          `🛑 <b>STOP-LOSS HIT: ${monitor.symbol}</b>\n\n` +
-            `💵 Price: $${currentPrice.toPrecision(6)}\n` +
-            `🎯 Stop-loss was: $${monitor.stopLossPrice}\n` +
-            `📉 Change from entry: ${lossPercent >= 0 ? "+" : ""}${lossPercent.toFixed(1)}%\n` +
-            `ℹ️ No tokens in wallet — notification only`,
-          "HTML"
-        );
-      } else {
-        // Actual sell failure — notify and retry next tick
-        await notifyStopLossHit(
-          monitor.symbol,
-          currentPrice,
-          monitor.stopLossPrice,
-          lossPercent,
-          "",
-          false
-        );
-        logger.error(
-          { symbol: monitor.symbol, error: result.error },
-          "Stop-loss sell FAILED — will retry next tick"
-        );
-        return; // Don't remove monitor — retry next tick
-      }
-    }
+  if (await tradingBlocked(monitor, "liquidity-drain emergency sell", quote.priceUsd)) return false;
+
+  logger.warn(
+    { symbol: monitor.symbol, peak, liquidityUsd: quote.liquidityUsd, dropPercent: dropPercent.toFixed(1) },
+    "LIQUIDITY DRAIN detected — emergency sell"
+  );
 
+  const result = await forceSellByAddress(monitor.address, monitor.symbol, "liquidity-drain", {
+    // The pool is being drained — the quote is expected to be far off the last print
+    skip: true,
+    pairAddress: monitor.pairAddress,
+  });
+  const isZeroBalance = result.error?.includes("Zero token balance") ?? false;
+
+  await notifyLiquidityExit(
+    monitor.symbol,
+    peak,
+    quote.liquidityUsd,
+    dropPercent,
+    config.liquidityDrainWindowSec,
+    quote.priceUsd,
+    result.txHash ?? "",
+    result.success,
+    isZeroBalance
+  );
+
+  if (result.success || isZeroBalance) {
     removeMonitor(monitor.address);
-    logger.info({ symbol: monitor.symbol }, "Simple monitor removed after stop-loss");
-    return;
+    liquiditySamples.delete(key);
+    logger.info({ symbol: monitor.symbol }, "Monitor removed after liquidity-drain exit");
+  } else {
+    logger.error(
+      { symbol: monitor.symbol, error: result.error },
+      "Liquidity-drain sell FAILED — will retry next tick"
+    );
   }
 
-  // ── Custom % milestone check (upward only) ────────────────────
-  if (monitor.entryPrice > 0) {
-    const gainPercent = ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100;
-    const currentMilestone = Math.floor(gainPercent / notifyPct) * notifyPct;
-
-    if (currentMilestone > 0 && currentMilestone > monitor.lastNotifiedMilestone) {
-      await notifyMilestone(
-        monitor.symbol,
-        currentPrice,
-        monitor.entryPrice,
-        currentMilestone
-      );
-      updateMonitor(monitor.address, { lastNotifiedMilestone: currentMilestone });
-      logger.info(
-        { symbol: monitor.symbol, milestone: currentMilestone, price: currentPrice },
-        "Simple monitor milestone reached"
-      );
-    }
-  }
+  return true;
 }
 
-// ── Buyback monitor ────────────────────────────────────────────────
-
-async function processBuyback(monitor: MonitoredToken, currentPrice: number): Promise<void> {
-  const notifyPct = monitor.notifyPercent ?? 25;
-  const buybackPct = monitor.buybackPercent ?? 10;
-  const usdcPerBuy = monitor.usdcPerBuyback ?? 0;
-  const totalBudget = monitor.totalUsdcBudget ?? 0;
-  let usdcSpent = monitor.usdcSpent ?? 0;
-  let lastBuybackLevel = monitor.lastBuybackLevel ?? 0;
-
-  // ── Custom % milestone check (upward only) ────────────────────
-  if (monitor.entryPrice > 0) {
-    const gainPercent = ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100;
-    const currentMilestone = Math.floor(gainPercent / notifyPct) * notifyPct;
-
-    if (currentMilestone > 0 && currentMilestone > monitor.lastNotifiedMilestone) {
-      await notifyMilestone(
-        monitor.symbol,
-        currentPrice,
-        monitor.entryPrice,
-        currentMilestone
-      );
-      updateMonitor(monitor.address, { lastNotifiedMilestone: currentMilestone });
-      logger.info(
-        { symbol: monitor.symbol, milestone: currentMilestone, price: currentPrice },
-        "Buyback monitor milestone reached"
-      );
-    }
+// ── Expiry (time-based exit) ───────────────────────────────────────
+
+/**
+ * Close out a monitor whose maxHoldHours / expiresAt has passed: sell the full
+ * balance (default), or notify and deactivate it. Monitors holding nothing
+ * (e.g. a pending limit buy) are always just deactivated.
+ * Returns true if the monitor was handled and the strategy should be skipped.
+ */
+async function checkExpiry(monitor: MonitoredToken, currentPrice: number): Promise<boolean> {
+  const expiry = monitorExpiry(monitor);
+  if (expiry === undefined || Date.now() < expiry) return false;
+
+  const heldMs = Date.now() - monitor.addedAt;
+  const changePercent = monitor.entryPrice > 0
+    ? ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100
+    : 0;
+  const sell = (monitor.expiryAction ?? "sell") === "sell" && !strategyFor(monitor).skipLiquidityExit;
+
+  if (!sell) {
+    // Clear the expiry so /resume <address> doesn't immediately expire it again
+    updateMonitor(monitor.address, {
+      active: false,
+      maxHoldHours: undefined,
+      expiresAt: undefined,
+      expiryAction: undefined,
+    });
+    logger.info({ symbol: monitor.symbol, heldMs }, "Monitor expired — deactivated");
+    await notifyExpiry(monitor.symbol, "notify", heldMs, currentPrice, changePercent, "", true);
+    return true;
   }
 
-  // ── Buyback logic (downward) ───────────────────────────────────
-  if (monitor.entryPrice > 0 && currentPrice < monitor.entryPrice && usdcPerBuy > 0) {
-    const dropPercent = ((monitor.entryPrice - currentPrice) / monitor.entryPrice) * 100;
-    const dropLevel = Math.floor(dropPercent / buybackPct);
-
-    if (dropLevel > lastBuybackLevel) {
-      // Check if budget allows
-      if (usdcSpent >= totalBudget) {
-        logger.info(
-          { symbol: monitor.symbol, usdcSpent, totalBudget },
-          "Buyback budget exhausted — skipping"
-        );
-        return;
-      }
+  if (await tradingBlocked(monitor, "expiry sell", currentPrice)) return true;
 
-      // Execute buyback
-      const buyAmount = Math.min(usdcPerBuy, totalBudget - usdcSpent);
-
-      logger.info(
-        {
-          symbol: monitor.symbol,
-          dropPercent: dropPercent.toFixed(1),
-          dropLevel,
-          lastBuybackLevel,
-          buyAmount,
-        },
-        "BUYBACK triggered — buying token"
-      );
-
-      const result = await buyToken(monitor.address as Address, buyAmount.toString());
-
-      usdcSpent += buyAmount;
-      lastBuybackLevel = dropLevel;
-
-      const remaining = Math.max(0, totalBudget - usdcSpent);
-
-      await notifyBuyback(
-        monitor.symbol,
-        currentPrice,
-        monitor.entryPrice,
-        dropPercent,
-        buyAmount,
-        remaining,
-        result.txHash ?? "",
-        result.success
-      );
-
-      updateMonitor(monitor.address, {
-        usdcSpent,
-        lastBuybackLevel,
-      });
-
-      if (usdcSpent >= totalBudget) {
-        await notifyBudgetExhausted(monitor.symbol, usdcSpent);
-        logger.info({ symbol: monitor.symbol }, "Buyback budget exhausted");
-      }
+  logger.info({ symbol: monitor.symbol, heldMs, currentPrice }, "Monitor EXPIRED — selling all holdings");
 
-      if (!result.success) {
-        logger.error(
-          { symbol: monitor.symbol, error: result.error },
-          "Buyback buy FAILED"
-        );
-      }
-    }
+  const result = await forceSellByAddress(monitor.address, monitor.symbol, "expiry", monitorPriceCheck(monitor, currentPrice, true));
+  // Held back by the price-deviation check, which has already alerted — retry next tick
+  if (result.deferred) return true;
+  const isZeroBalance = result.error?.includes("Zero token balance") ?? false;
+
+  await notifyExpiry(
+    monitor.symbol,
+    "sell",
+    heldMs,
+    currentPrice,
+    changePercent,
+    result.txHash ?? "",
+    result.success,
+    isZeroBalance
+  );
+
+  if (result.success || isZeroBalance) {
+    removeMonitor(monitor.address);
+    logger.info({ symbol: monitor.symbol }, "Monitor removed after expiry sell");
+  } else {
+    logger.error(
+      { symbol: monitor.symbol, error: result.error },
+      "Expiry sell FAILED — will retry next tick"
+    );
   }
+
+  return true;
 }
 
 // ── ETH balance check ──────────────────────────────────────────────
@@ -390,15 +414,22 @@ async function checkEthBalance(): Promise<void> {
 // ── Scheduler ──────────────────────────────────────────────────────
 
 /**
- * Start the price monitoring loop (30s ticks by default).
+ * Start the price monitoring loop. Ticks run at the fast poll rate; each
+ * monitor is only checked when due (30s by default, 5s near a trigger).
  */
 export function startMonitorLoop(): void {
   if (tickInterval) return;
 
-  const intervalMs = config.monitorIntervalSec * 1000;
+  const intervalMs = config.fastPollIntervalSec * 1000;
+  // First ETH balance check five minutes after start
+  lastEthCheck = Date.now();
 
   logger.info(
-    { intervalSec: config.monitorIntervalSec },
+    {
+      intervalSec: config.monitorIntervalSec,
+      fastIntervalSec: config.fastPollIntervalSec,
+      fastBandPercent: config.fastPollBandPercent,
+    },
     "Starting price monitor loop"
   );
 
@@ -408,6 +439,8 @@ export function startMonitorLoop(): void {
   tickInterval = setInterval(() => {
     tick().catch((err) => logger.error({ err }, "Tick error"));
   }, intervalMs);
+
+  syncStrategies();
 }
 
 /**
@@ -417,6 +450,9 @@ export function stopMonitorLoop(): void {
   if (tickInterval) {
     clearInterval(tickInterval);
     tickInterval = null;
+    schedule.clear();
+    watchlistDueAt = 0;
+    for (const strategy of getStrategies()) strategy.stop?.();
     logger.info("Monitor loop stopped");
   }
 }
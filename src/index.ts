@@ -1,6 +1,7 @@
 import { loadConfig, config } from "./config/index.js";
 import { initWallet, getWalletAddress, getEthBalanceFormatted, getUsdcBalanceFormatted } from "./chain/wallet.js";
 import { initPositionManager, saveAllState, getActiveMonitors } from "./positions/manager.js";
+import { flushPriceHistory } from "./pricing/index.js";
 import { createBot, notify } from "./telegram/bot.js";
 import { startMonitorLoop, stopMonitorLoop } from "./core/orchestrator.js";
 import { startApiServer, stopApiServer, setStartingBalance } from "./api/server.js";
@@ -97,6 +98,7 @@ function shutdown(signal: string): void {
   stopMonitorLoop();
   stopApiServer();
   saveAllState();
+  flushPriceHistory();
 
   notify("🛑 <b>OpenClaw Trader shutting down</b> (" + signal + ")", "HTML")
     .catch(() => {})
@@ -3,9 +3,10 @@ import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { formatUnits, type Address } from "viem";
 import { config, USDC_DECIMALS } from "../config/index.js";
-import { getTokenPrice } from "../scanner/dexscreener.js";
-import { sellAllToken, type SwapResult } from "../swap/executor.js";
+import { getTokenPrice } from "../pricing/index.js";
+import { sellAllToken, sellTokenAmount, sellTokenPercent, type PriceCheck, type SwapResult } from "../swap/executor.js";
 import { logger } from "../utils/logger.js";
+import type { MonitorType } from "../strategies/index.js";
 
 // ── Types ──────────────────────────────────────────────────────────
 
@@ -23,7 +24,78 @@ export interface Position {
   dexScreenerUrl: string;
 }
 
-export type MonitorType = "standard" | "simple" | "buyback";
+/** Derived from the strategy registry (src/strategies/index.ts) */
+export type { MonitorType };
+
+export interface TakeProfitRung {
+  /** Gain % from entry that triggers this rung (e.g. 50 = +50%) */
+  gainPercent: number;
+  /** % of the ladder base amount to sell — the last rung always sells whatever remains */
+  sellPercent: number;
+  /** Whether this rung has already executed */
+  filled: boolean;
+  /** Sell transaction hash once filled */
+  txHash?: string;
+  /** Timestamp when the rung filled */
+  filledAt?: number;
+}
+
+export interface StopTier {
+  /** Price at or below which this tier sells */
+  price: number;
+  /** % of the tier base amount to sell — the last tier always sells whatever remains */
+  sellPercent: number;
+  /** Whether this tier has already executed */
+  filled: boolean;
+  /** Sell transaction hash once filled */
+  txHash?: string;
+  /** Timestamp when the tier filled */
+  filledAt?: number;
+}
+
+export interface GridLevel {
+  /** Price of this grid line */
+  price: number;
+  /** Whether a lot bought at this level is currently held */
+  filled: boolean;
+  /** Raw token amount of the held lot (sold when price reaches the next level up) */
+  tokenAmount?: string;
+  /** Buy transaction hash of the held lot */
+  buyTxHash?: string;
+  /** Timestamp when the held lot was bought */
+  filledAt?: number;
+}
+
+/** What a rule does when its condition holds */
+export type RuleAction =
+  | { kind: "sell" }
+  | { kind: "sell-percent"; percent: number }
+  | { kind: "buy"; usdc: number }
+  | { kind: "notify" };
+
+export interface MonitorRule {
+  /** Condition, e.g. "price < 0.004 AND liquidityUsd < 50000" (see strategies/expression.ts) */
+  expression: string;
+  action: RuleAction;
+  /** Timestamp when the rule fired — rules are one-shot */
+  firedAt?: number;
+  /** Transaction hash of the rule's trade, if it made one */
+  txHash?: string;
+}
+
+export interface StopBreachState {
+  /** Consecutive ticks at or below the stop, at most one per MONITOR_INTERVAL_SEC */
+  count: number;
+  /** When the last counted tick was seen (unix ms) */
+  countedAt?: number;
+  /** When the breach started (unix ms) */
+  startedAt: number;
+  /** Sum of price × ms over the breach, for the time-weighted average */
+  twapSum: number;
+  /** Last observed price and when it was seen */
+  lastPrice: number;
+  lastAt: number;
+}
 
 export interface MonitoredToken {
   /** Monitor type — determines tick behavior (defaults to 'standard' for backward compat) */
@@ -36,6 +108,8 @@ export interface MonitoredToken {
   name: string;
   /** Absolute stop-loss price — sell when price drops to or below this */
   stopLossPrice: number;
+  /** Stop-loss as entered, as a % below the reference price (set when given as "-15%") */
+  stopLossPercent?: number;
   /** Price when monitoring was started (for milestone notifications) */
   entryPrice: number;
   /** Last notified milestone (e.g. 0, 25, 50, 75, 100...) */
@@ -44,6 +118,8 @@ export interface MonitoredToken {
   active: boolean;
   /** DexScreener pair URL */
   dexScreenerUrl?: string;
+  /** Pinned DEX pair — priced from this pool only (default: the highest-liquidity pair) */
+  pairAddress?: string;
   /** Timestamp when monitoring started */
   addedAt: number;
 
@@ -56,12 +132,141 @@ export interface MonitoredToken {
   usdcPerBuyback?: number;
   /** Cumulative % drop interval that triggers a buyback */
   buybackPercent?: number;
-  /** Total USDC budget for buybacks */
+  /** Total USDC budget for buybacks (also used by DCA) */
   totalUsdcBudget?: number;
-  /** USDC already spent on buybacks */
+  /** USDC already spent on buybacks (also used by DCA) */
   usdcSpent?: number;
   /** Last cumulative drop level that triggered a buyback (1 = first interval, 2 = second, etc.) */
   lastBuybackLevel?: number;
+  /** Sell everything once price is this % above the blended average cost */
+  takeProfitPercent?: number;
+
+  // ── OCO fields ─────────────────────────────────────────────────
+  /** Sell everything once the price reaches this (the stop-loss is the other side) */
+  takeProfitPrice?: number;
+
+  // ── Trailing-only fields ───────────────────────────────────────
+  /** Trail distance as a % below the running high (takes precedence over trailAmount) */
+  trailPercent?: number;
+  /** Trail distance as an absolute USD amount below the running high */
+  trailAmount?: number;
+  /** Highest price seen since monitoring started — the stop trails this (drawdown alerts from the high use it too) */
+  highestPrice?: number;
+
+  // ── Limit-buy fields ───────────────────────────────────────────
+  /** Buy once the price falls to or below this */
+  limitBuyPrice?: number;
+  /** USDC to spend when the limit fills */
+  limitBuyUsdc?: number;
+  /** Stop-loss % below the fill price for the standard monitor it becomes after filling */
+  limitBuyStopPercent?: number;
+
+  // ── DCA fields ─────────────────────────────────────────────────
+  /** Cron expression (evaluated in UTC) for scheduled buys, e.g. "0 9 * * *" */
+  dcaSchedule?: string;
+  /** USDC to spend per scheduled buy */
+  dcaUsdcPerBuy?: number;
+  /** Minute-aligned start (unix ms) of the last slot that executed — prevents double-buys after a restart */
+  dcaLastSlot?: number;
+  /** Number of scheduled buys executed */
+  dcaBuyCount?: number;
+
+  // ── Grid fields ────────────────────────────────────────────────
+  /** Lowest grid line (USD) */
+  gridLower?: number;
+  /** Highest grid line (USD) */
+  gridUpper?: number;
+  /** USDC to spend per level */
+  gridUsdcPerLevel?: number;
+  /** Grid lines sorted ascending, with the lot held at each */
+  gridState?: GridLevel[];
+  /** Price at the previous tick — level crossings are measured against it */
+  lastGridPrice?: number;
+
+  // ── Rule fields ────────────────────────────────────────────────
+  /** Conditional actions, checked in order every tick */
+  rules?: MonitorRule[];
+
+  // ── Cost basis (buyback / DCA) ─────────────────────────────────
+  /** Raw token balance held when the monitor was created, valued at entryPrice */
+  anchorTokens?: string;
+  /** Raw token amount acquired by the bot's own buys */
+  tokensAcquired?: string;
+  /** Volume-weighted average cost per token (anchor holding + bot buys) */
+  avgCostPrice?: number;
+
+  // ── Take-profit ladder (any monitor type) ──────────────────────
+  /** Take-profit rungs, sorted by gainPercent ascending */
+  takeProfits?: TakeProfitRung[];
+  /** Raw token balance when the ladder was set — rung sellPercent is relative to this */
+  ladderBaseAmount?: string;
+
+  // ── Tiered stop-loss (standard / simple) ───────────────────────
+  /** Stop tiers sorted by price descending; stopLossPrice tracks the next unfilled tier */
+  stopTiers?: StopTier[];
+  /** Raw token balance when the tiers were set — tier sellPercent is relative to this */
+  stopTiersBaseAmount?: string;
+
+  // ── Break-even stop (standard / simple / trailing) ─────────────
+  /** If set, move the stop to entry + this % on the first milestone (0 = exactly entry) */
+  breakEvenBufferPercent?: number;
+  /** Whether the break-even move has already happened */
+  breakEvenApplied?: boolean;
+
+  // ── Drawdown alerts (standard / simple / trailing / buyback) ───
+  /** Alert (never sell) every time the price falls another X% below the reference */
+  drawdownAlertPercent?: number;
+  /** Reference for drawdown alerts: the entry price (default) or the highest price since monitoring started */
+  drawdownFrom?: "entry" | "high";
+  /** Deepest drawdown level already alerted (e.g. 10, 20...) — resets once price is back at the reference */
+  lastNotifiedDrawdown?: number;
+
+  // ── Expiry (any monitor type) ──────────────────────────────────
+  /** Expire this many hours after addedAt */
+  maxHoldHours?: number;
+  /** Expire at this absolute time (unix ms) — the earlier of the two wins */
+  expiresAt?: number;
+  /** On expiry: sell the full balance (default) or notify and deactivate */
+  expiryAction?: "sell" | "notify";
+
+  // ── Stop-loss confirmation (any monitor with a stop) ───────────
+  /** Require this many consecutive ticks at/below the stop before selling */
+  stopConfirmTicks?: number;
+  /** Require the time-weighted price to stay at/below the stop for this many seconds */
+  stopConfirmSec?: number;
+  /** Current breach, if the price is (or recently was) below the stop */
+  stopBreach?: StopBreachState;
+}
+
+/** One-shot price level on a watchlist entry */
+export interface WatchAlert {
+  /** Price level (USD) */
+  price: number;
+  /** Fire when the price rises to/above ('above') or falls to/below ('below') the level */
+  direction: "above" | "below";
+}
+
+/** Watch-only token — alerts, never trades, and isn't a monitor or position */
+export interface WatchEntry {
+  address: string;
+  symbol: string;
+  name: string;
+  dexScreenerUrl?: string;
+  /** Pending alerts — each is removed once it fires */
+  alerts: WatchAlert[];
+  addedAt: number;
+}
+
+/**
+ * Global pause mode:
+ *  - 'none':    everything runs
+ *  - 'trading': monitors keep evaluating and alerting, but no buys/sells execute
+ *  - 'all':     monitor ticks are skipped entirely
+ */
+export type PauseMode = "none" | "trading" | "all";
+
+interface BotState {
+  pauseMode: PauseMode;
 }
 
 export interface TradeHistoryEntry {
@@ -73,7 +278,7 @@ export interface TradeHistoryEntry {
   usdcAmount: string;
   txHash: string;
   timestamp: number;
-  reason?: string;           // For sells: "stop-loss", "manual", etc.
+  reason?: string;           // "stop-loss", "manual", "take-profit +50%", "limit-buy", etc.
   profitPercent?: number;
 }
 
@@ -85,14 +290,17 @@ const POSITIONS_FILE = join(DATA_DIR, "positions.json");
 const BLACKLIST_FILE = join(DATA_DIR, "blacklist.json");
 const HISTORY_FILE = join(DATA_DIR, "history.json");
 const MONITORS_FILE = join(DATA_DIR, "monitors.json");
+const STATE_FILE = join(DATA_DIR, "state.json");
+const WATCHLIST_FILE = join(DATA_DIR, "watchlist.json");
 
 // ── State ──────────────────────────────────────────────────────────
 
 let positions: Position[] = [];
 let blacklist: Set<string> = new Set();
 let history: TradeHistoryEntry[] = [];
-let tradingPaused = false;
+let pauseMode: PauseMode = "none";
 let monitors: MonitoredToken[] = [];
+let watchlist: WatchEntry[] = [];
 
 // ── Persistence ────────────────────────────────────────────────────
 
@@ -128,9 +336,11 @@ export function initPositionManager(): void {
   blacklist = new Set(blacklistArr.map((a) => a.toLowerCase()));
   history = loadJson<TradeHistoryEntry[]>(HISTORY_FILE, []);
   monitors = loadJson<MonitoredToken[]>(MONITORS_FILE, []);
+  pauseMode = loadJson<BotState>(STATE_FILE, { pauseMode: "none" }).pauseMode ?? "none";
+  watchlist = loadJson<WatchEntry[]>(WATCHLIST_FILE, []);
 
   logger.info(
-    { positions: positions.length, blacklist: blacklist.size, history: history.length, monitors: monitors.length },
+    { positions: positions.length, blacklist: blacklist.size, history: history.length, monitors: monitors.length, watchlist: watchlist.length, pauseMode },
     "Position manager initialized"
   );
 }
@@ -161,13 +371,20 @@ export function getFullHistory(): TradeHistoryEntry[] {
   return [...history];
 }
 
+/** True when trades must not execute (either pause mode) */
 export function isTradingPaused(): boolean {
-  return tradingPaused;
+  return pauseMode !== "none";
+}
+
+export function getPauseMode(): PauseMode {
+  return pauseMode;
 }
 
-export function setPaused(paused: boolean): void {
-  tradingPaused = paused;
-  logger.info({ paused }, "Trading paused state changed");
+/** Set the global pause mode (persisted across restarts) */
+export function setPauseMode(mode: PauseMode): void {
+  pauseMode = mode;
+  saveJson(STATE_FILE, { pauseMode } satisfies BotState);
+  logger.info({ pauseMode }, "Pause mode changed");
 }
 
 // ── Monitor management ─────────────────────────────────────────────
@@ -220,12 +437,112 @@ export function updateMonitor(address: string, updates: Partial<MonitoredToken>)
   }
 }
 
+/**
+ * Stop price for a trailing monitor given the running high.
+ * Uses trailPercent when set, otherwise trailAmount.
+ */
+export function computeTrailingStop(
+  monitor: Pick<MonitoredToken, "trailPercent" | "trailAmount">,
+  highPrice: number
+): number {
+  if (monitor.trailPercent !== undefined) {
+    return highPrice * (1 - monitor.trailPercent / 100);
+  }
+  return Math.max(0, highPrice - (monitor.trailAmount ?? 0));
+}
+
+/** When a monitor expires (unix ms) — the earlier of maxHoldHours and expiresAt, if either is set */
+export function monitorExpiry(
+  monitor: Pick<MonitoredToken, "addedAt" | "maxHoldHours" | "expiresAt">
+): number | undefined {
+  const candidates = [
+    monitor.maxHoldHours !== undefined ? monitor.addedAt + monitor.maxHoldHours * 3_600_000 : undefined,
+    monitor.expiresAt,
+  ].filter((t): t is number => t !== undefined);
+  return candidates.length > 0 ? Math.min(...candidates) : undefined;
+}
+
+/** Pinned pairs of the given monitors (lowercase token → pair address), for getTokenQuotes */
+export function pinnedPairs(monitorList: Array<Pick<MonitoredToken, "address" | "pairAddress">>): Map<string, string> {
+  return new Map(
+    monitorList.flatMap((m) => (m.pairAddress ? [[m.address.toLowerCase(), m.pairAddress] as const] : []))
+  );
+}
+
+/** Pause or resume a single monitor via its `active` flag */
+export function setMonitorActive(address: string, active: boolean): MonitoredToken | undefined {
+  const monitor = getMonitor(address);
+  if (!monitor) return undefined;
+  updateMonitor(monitor.address, { active });
+  logger.info({ symbol: monitor.symbol, active }, "Monitor active state changed");
+  return monitor;
+}
+
 export function clearAllMonitors(): void {
   monitors = [];
   saveJson(MONITORS_FILE, monitors);
   logger.info("All monitors cleared");
 }
 
+// ── Watchlist ──────────────────────────────────────────────────────
+
+export function getWatchlist(): WatchEntry[] {
+  return [...watchlist];
+}
+
+export function getWatchEntry(address: string): WatchEntry | undefined {
+  return watchlist.find(
+    (w) => w.address.toLowerCase() === address.toLowerCase()
+  );
+}
+
+/**
+ * Add alerts for a token, creating its watchlist entry if needed.
+ * Levels already on the entry (same price and direction) are not duplicated.
+ */
+export function addWatchAlerts(
+  token: Omit<WatchEntry, "alerts" | "addedAt">,
+  alerts: WatchAlert[]
+): WatchEntry {
+  let entry = getWatchEntry(token.address);
+  if (!entry) {
+    entry = { ...token, alerts: [], addedAt: Date.now() };
+    watchlist.push(entry);
+  }
+  for (const alert of alerts) {
+    if (!entry.alerts.some((a) => a.price === alert.price && a.direction === alert.direction)) {
+      entry.alerts.push(alert);
+    }
+  }
+  entry.alerts.sort((a, b) => b.price - a.price);
+  saveJson(WATCHLIST_FILE, watchlist);
+  logger.info({ symbol: entry.symbol, alerts: entry.alerts.length }, "Watchlist alerts added");
+  return entry;
+}
+
+/** Replace an entry's pending alerts; the entry is dropped once none are left */
+export function setWatchAlerts(address: string, alerts: WatchAlert[]): void {
+  const entry = getWatchEntry(address);
+  if (!entry) return;
+  if (alerts.length === 0) {
+    removeWatchEntry(address);
+    return;
+  }
+  entry.alerts = alerts;
+  saveJson(WATCHLIST_FILE, watchlist);
+}
+
+export function removeWatchEntry(address: string): WatchEntry | undefined {
+  const idx = watchlist.findIndex(
+    (w) => w.address.toLowerCase() === address.toLowerCase()
+  );
+  if (idx === -1) return undefined;
+  const [removed] = watchlist.splice(idx, 1);
+  saveJson(WATCHLIST_FILE, watchlist);
+  logger.info({ symbol: removed.symbol }, "Watchlist entry removed");
+  return removed;
+}
+
 // ── Position management ────────────────────────────────────────────
 
 /**
@@ -301,7 +618,8 @@ export function addHistoryEntry(entry: TradeHistoryEntry): void {
 }
 
 /**
- * Force-sell a specific position.
+ * Force-sell a specific position. User-initiated, so the price-deviation
+ * guard is skipped.
  * @param reason - recorded in trade history (default: "manual")
  */
 export async function forceSell(
@@ -319,7 +637,7 @@ export async function forceSell(
     return { position: pos, result: { success: true } };
   }
 
-  const result = await sellAllToken(tokenAddress as Address);
+  const result = await sellAllToken(tokenAddress as Address, { skip: true });
 
   if (result.success) {
     const sellProfitPercent = price
@@ -352,19 +670,21 @@ export async function forceSell(
 /**
  * Force-sell a token by address (for monitored tokens without Position entry).
  * Uses sellAllToken directly.
+ * @param priceCheck - signal price the 0x quote must agree with (see executor)
  */
 export async function forceSellByAddress(
   tokenAddress: string,
   symbol: string,
-  reason: string = "stop-loss"
+  reason: string = "stop-loss",
+  priceCheck: PriceCheck = {}
 ): Promise<SwapResult> {
   if (config.dryRun) {
     logger.info({ symbol }, "DRY RUN — would sell all " + symbol);
     return { success: true };
   }
 
-  const result = await sellAllToken(tokenAddress as Address);
-  const price = await getTokenPrice(tokenAddress as Address);
+  const result = await sellAllToken(tokenAddress as Address, priceCheck);
+  const price = await getTokenPrice(tokenAddress as Address, priceCheck.pairAddress);
 
   if (result.success) {
     const usdcReceived = result.buyAmount
@@ -387,6 +707,90 @@ export async function forceSellByAddress(
   return result;
 }
 
+/**
+ * Sell part of a token balance by address (take-profit rungs and other partial exits).
+ * The amount is capped at the wallet balance.
+ */
+export async function sellPartialByAddress(
+  tokenAddress: string,
+  symbol: string,
+  amount: bigint,
+  reason: string,
+  profitPercent?: number,
+  priceCheck: PriceCheck = {}
+): Promise<SwapResult> {
+  if (config.dryRun) {
+    logger.info({ symbol, amount: amount.toString() }, "DRY RUN — would sell part of " + symbol);
+    return { success: true };
+  }
+
+  const result = await sellTokenAmount(tokenAddress as Address, amount, priceCheck);
+  const price = await getTokenPrice(tokenAddress as Address, priceCheck.pairAddress);
+
+  if (result.success) {
+    const usdcReceived = result.buyAmount
+      ? formatUnits(BigInt(result.buyAmount), USDC_DECIMALS)
+      : "0";
+
+    addHistoryEntry({
+      type: "sell",
+      tokenAddress,
+      tokenSymbol: symbol,
+      price: price ?? 0,
+      amount: result.sellAmount ?? amount.toString(),
+      usdcAmount: usdcReceived,
+      txHash: result.txHash ?? "",
+      timestamp: Date.now(),
+      reason,
+      profitPercent,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Sell a percentage of the current wallet balance by address (tiered stop-losses
+ * and other scale-out exits).
+ */
+export async function sellPercentByAddress(
+  tokenAddress: string,
+  symbol: string,
+  percent: number,
+  reason: string,
+  profitPercent?: number,
+  priceCheck: PriceCheck = {}
+): Promise<SwapResult> {
+  if (config.dryRun) {
+    logger.info({ symbol, percent }, `DRY RUN — would sell ${percent}% of ` + symbol);
+    return { success: true };
+  }
+
+  const result = await sellTokenPercent(tokenAddress as Address, percent, priceCheck);
+  const price = await getTokenPrice(tokenAddress as Address, priceCheck.pairAddress);
+
+  if (result.success) {
+    const usdcReceived = result.buyAmount
+      ? formatUnits(BigInt(result.buyAmount), USDC_DECIMALS)
+      : "0";
+
+    addHistoryEntry({
+      type: "sell",
+      tokenAddress,
+      tokenSymbol: symbol,
+      price: price ?? 0,
+      amount: result.sellAmount ?? "0",
+      usdcAmount: usdcReceived,
+      txHash: result.txHash ?? "",
+      timestamp: Date.now(),
+      reason,
+      profitPercent,
+    });
+  }
+
+  return result;
+}
+
 /**
  * Save current state to disk (call on shutdown).
  */
@@ -395,5 +799,7 @@ export function saveAllState(): void {
   saveJson(BLACKLIST_FILE, [...blacklist]);
   saveJson(HISTORY_FILE, history);
   saveJson(MONITORS_FILE, monitors);
+  saveJson(STATE_FILE, { pauseMode } satisfies BotState);
+  saveJson(WATCHLIST_FILE, watchlist);
   logger.info("All state persisted to disk");
 }
@@ -0,0 +1,11 @@
+import { getTokenQuotes, getPairQuotes } from "../scanner/dexscreener.js";
+import type { PriceSource } from "./types.js";
+
+// ── DexScreener price source ───────────────────────────────────────
+
+/** Batched DexScreener quotes — the highest-liquidity Base pair per token, or the pinned one */
+export const dexScreenerSource: PriceSource = {
+  name: "dexscreener",
+  getQuotes: getTokenQuotes,
+  getPairQuotes,
+};
@@ -0,0 +1,195 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { logger } from "../utils/logger.js";
+
+// Every price the monitor loop sees, kept as a rolling series of raw ticks plus
+// 1m / 5m / 1h OHLC candles, one file per token under data/prices/.
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type CandleInterval = "1m" | "5m" | "1h";
+
+export interface Candle {
+  /** Bucket start (ms) */
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  /** Ticks aggregated into the candle */
+  n: number;
+}
+
+/** Raw observation: [timestamp ms, price USD] */
+type PriceTick = [number, number];
+
+interface PriceSeries {
+  ticks: PriceTick[];
+  candles: Record<CandleInterval, Candle[]>;
+}
+
+// ── Constants ──────────────────────────────────────────────────────
+
+export const CANDLE_INTERVALS: CandleInterval[] = ["1m", "5m", "1h"];
+
+/** Length of each candle interval */
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+};
+
+/** How far back each series is kept */
+const RETENTION_MS: Record<CandleInterval | "ticks", number> = {
+  ticks: 2 * 60 * 60 * 1000,
+  "1m": 24 * 60 * 60 * 1000,
+  "5m": 7 * 24 * 60 * 60 * 1000,
+  "1h": 90 * 24 * 60 * 60 * 1000,
+};
+
+/** Series are written at most this often — a full rewrite every tick would be wasteful */
+const FLUSH_DELAY_MS = 60 * 1000;
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PRICES_DIR = join(__dirname, "..", "data", "prices");
+
+// ── State ──────────────────────────────────────────────────────────
+
+/** Loaded series by lowercase address */
+const series = new Map<string, PriceSeries>();
+
+/** Addresses with changes not yet on disk */
+const dirty = new Set<string>();
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ── Persistence ────────────────────────────────────────────────────
+
+function seriesFile(key: string): string {
+  return join(PRICES_DIR, `${key}.json`);
+}
+
+function emptySeries(): PriceSeries {
+  return { ticks: [], candles: { "1m": [], "5m": [], "1h": [] } };
+}
+
+/** Series for a token, loaded from disk on first use — undefined if it has none */
+function findSeries(tokenAddress: string): PriceSeries | undefined {
+  const key = tokenAddress.toLowerCase();
+  let entry = series.get(key);
+  if (entry) return entry;
+
+  const file = seriesFile(key);
+  if (!existsSync(file)) return undefined;
+
+  entry = emptySeries();
+  try {
+    const saved = JSON.parse(readFileSync(file, "utf-8")) as Partial<PriceSeries>;
+    entry.ticks = saved.ticks ?? [];
+    for (const interval of CANDLE_INTERVALS) {
+      entry.candles[interval] = saved.candles?.[interval] ?? [];
+    }
+  } catch (err) {
+    logger.warn({ err, file }, "Failed to load price history, starting fresh");
+  }
+  series.set(key, entry);
+  return entry;
+}
+
+/** Series for a token, started empty if it has none — only for recording, so reads don't grow the cache */
+function getSeries(tokenAddress: string): PriceSeries {
+  const existing = findSeries(tokenAddress);
+  if (existing) return existing;
+
+  const entry = emptySeries();
+  series.set(tokenAddress.toLowerCase(), entry);
+  return entry;
+}
+
+/** Write every changed series to disk (also called on shutdown) */
+export function flushPriceHistory(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (dirty.size === 0) return;
+
+  try {
+    if (!existsSync(PRICES_DIR)) mkdirSync(PRICES_DIR, { recursive: true });
+  } catch (err) {
+    logger.error({ err, dir: PRICES_DIR }, "Failed to create price history directory");
+    return;
+  }
+
+  for (const key of dirty) {
+    const entry = series.get(key);
+    if (!entry) continue;
+    try {
+      // Compact — these files hold thousands of candles
+      writeFileSync(seriesFile(key), JSON.stringify(entry), "utf-8");
+    } catch (err) {
+      logger.error({ err, token: key }, "Failed to save price history");
+    }
+  }
+  dirty.clear();
+}
+
+// ── Recording ──────────────────────────────────────────────────────
+
+/** Drop entries older than the retention window (series are time-ordered) */
+function trim<T>(items: T[], timeOf: (item: T) => number, cutoff: number): void {
+  let drop = 0;
+  while (drop < items.length && timeOf(items[drop]) < cutoff) drop++;
+  if (drop > 0) items.splice(0, drop);
+}
+
+/**
+ * Record a price observation for a token: appended to the raw tick series and
+ * folded into the current 1m, 5m and 1h candles. Out-of-order observations
+ * are ignored.
+ */
+export function recordPrice(tokenAddress: string, priceUsd: number, at = Date.now()): void {
+  if (!isFinite(priceUsd) || priceUsd <= 0) return;
+
+  const entry = getSeries(tokenAddress);
+  const lastTick = entry.ticks[entry.ticks.length - 1];
+  if (lastTick && at < lastTick[0]) return;
+
+  entry.ticks.push([at, priceUsd]);
+  trim(entry.ticks, (tick) => tick[0], at - RETENTION_MS.ticks);
+
+  for (const interval of CANDLE_INTERVALS) {
+    const candles = entry.candles[interval];
+    const bucket = Math.floor(at / CANDLE_INTERVAL_MS[interval]) * CANDLE_INTERVAL_MS[interval];
+    const last = candles[candles.length - 1];
+
+    if (last && last.t === bucket) {
+      last.h = Math.max(last.h, priceUsd);
+      last.l = Math.min(last.l, priceUsd);
+      last.c = priceUsd;
+      last.n++;
+    } else {
+      candles.push({ t: bucket, o: priceUsd, h: priceUsd, l: priceUsd, c: priceUsd, n: 1 });
+      trim(candles, (candle) => candle.t, at - RETENTION_MS[interval]);
+    }
+  }
+
+  dirty.add(tokenAddress.toLowerCase());
+  if (!flushTimer) {
+    flushTimer = setTimeout(flushPriceHistory, FLUSH_DELAY_MS);
+    flushTimer.unref();
+  }
+}
+
+// ── Queries ────────────────────────────────────────────────────────
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return (CANDLE_INTERVALS as string[]).includes(value);
+}
+
+/** The most recent `limit` candles of a token, oldest first (empty if never priced) */
+export function getCandles(tokenAddress: string, interval: CandleInterval, limit?: number): Candle[] {
+  const candles = findSeries(tokenAddress)?.candles[interval] ?? [];
+  return limit !== undefined && limit > 0 ? candles.slice(-limit) : [...candles];
+}
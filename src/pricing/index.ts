@@ -0,0 +1,123 @@
+import type { Address } from "viem";
+import { config } from "../config/index.js";
+import { logger } from "../utils/logger.js";
+import { dexScreenerSource } from "./dexscreener.js";
+import { createOnChainSource } from "./onchain.js";
+import type { PairPin, PriceSource, TokenQuote } from "./types.js";
+
+// ── State ──────────────────────────────────────────────────────────
+
+const sources = new Map<string, PriceSource>();
+
+/** Which source last priced each token (lowercase address), to log failovers once */
+const lastSourceFor = new Map<string, string>();
+
+/** Unknown PRICE_SOURCES names already warned about */
+const warnedUnknown = new Set<string>();
+
+// ── Registry ───────────────────────────────────────────────────────
+
+export function registerPriceSource(source: PriceSource): void {
+  if (sources.has(source.name)) {
+    throw new Error(`Price source "${source.name}" is already registered`);
+  }
+  sources.set(source.name, source);
+}
+
+// Built-in sources. PRICE_SOURCES picks which are used and in what order.
+registerPriceSource(dexScreenerSource);
+registerPriceSource(createOnChainSource());
+
+/** Configured sources in priority order */
+function activeSources(): PriceSource[] {
+  const active: PriceSource[] = [];
+  for (const name of config.priceSources) {
+    const source = sources.get(name);
+    if (source) {
+      active.push(source);
+    } else if (!warnedUnknown.has(name)) {
+      warnedUnknown.add(name);
+      logger.warn({ name, known: [...sources.keys()] }, "Unknown price source in PRICE_SOURCES — ignored");
+    }
+  }
+  return active;
+}
+
+// ── Quotes ─────────────────────────────────────────────────────────
+
+/**
+ * Quotes for many tokens, keyed by lowercase address. Sources are tried in
+ * PRICE_SOURCES order and each one only gets the tokens the previous ones
+ * couldn't price, so a DexScreener outage falls through to on-chain reads
+ * instead of skipping the tick.
+ *
+ * Tokens in `pinnedPairs` (lowercase token → pair address) are priced from
+ * that pair only, by the sources that support pair quotes.
+ */
+export async function getTokenQuotes(
+  tokenAddresses: Address[],
+  pinnedPairs: Map<string, string> = new Map()
+): Promise<Map<string, TokenQuote>> {
+  const quotes = new Map<string, TokenQuote>();
+  const all = [...new Set(tokenAddresses.map((a) => a.toLowerCase()))] as Address[];
+  let missing = all.filter((a) => !pinnedPairs.has(a));
+  let missingPins: PairPin[] = all
+    .filter((a) => pinnedPairs.has(a))
+    .map((token) => ({ token, pairAddress: pinnedPairs.get(token) as Address }));
+
+  for (const source of activeSources()) {
+    if (missing.length === 0 && missingPins.length === 0) break;
+    const lookups: Array<Promise<Map<string, TokenQuote>>> = [];
+    if (missing.length > 0) lookups.push(source.getQuotes(missing));
+    if (missingPins.length > 0 && source.getPairQuotes) lookups.push(source.getPairQuotes(missingPins));
+
+    for (const result of await Promise.allSettled(lookups)) {
+      if (result.status === "fulfilled") {
+        for (const [address, quote] of result.value) quotes.set(address, quote);
+      } else {
+        logger.warn({ err: result.reason, source: source.name }, "Price source failed — trying the next one");
+      }
+    }
+    missing = missing.filter((a) => !quotes.has(a));
+    missingPins = missingPins.filter((p) => !quotes.has(p.token));
+  }
+
+  for (const [address, quote] of quotes) {
+    const previous = lastSourceFor.get(address);
+    if (previous && previous !== quote.source) {
+      logger.warn({ token: address, from: previous, to: quote.source }, "Price source changed");
+    }
+    lastSourceFor.set(address, quote.source);
+  }
+
+  return quotes;
+}
+
+/**
+ * Current USD price of a token from the first source that can price it
+ * (from `pairAddress` only, if given). Returns null if none can.
+ */
+export async function getTokenPrice(tokenAddress: Address, pairAddress?: string): Promise<number | null> {
+  const pins = pairAddress ? new Map([[tokenAddress.toLowerCase(), pairAddress]]) : undefined;
+  const quotes = await getTokenQuotes([tokenAddress], pins);
+  return quotes.get(tokenAddress.toLowerCase())?.priceUsd ?? null;
+}
+
+/** Prices for multiple tokens, keyed by lowercase address */
+export async function getTokenPrices(tokenAddresses: Address[]): Promise<Map<string, number>> {
+  const quotes = await getTokenQuotes(tokenAddresses);
+  return new Map([...quotes].map(([addr, quote]) => [addr, quote.priceUsd]));
+}
+
+export { createOnChainSource, BASE_VENUES } from "./onchain.js";
+export {
+  recordPrice,
+  flushPriceHistory,
+  getCandles,
+  isCandleInterval,
+  CANDLE_INTERVALS,
+  CANDLE_INTERVAL_MS,
+} from "./history.js";
+export type { Candle, CandleInterval } from "./history.js";
+export type { OnChainSourceOptions, Venue, PoolKind } from "./onchain.js";
+export type { PairPin, PriceSource, TokenQuote } from "./types.js";
@@ -0,0 +1,351 @@
+import { formatUnits, parseAbi, zeroAddress, type Address, type PublicClient } from "viem";
+import {
+  USDC_ADDRESS,
+  WETH_ADDRESS,
+  ERC20_ABI,
+  UNISWAP_V2_FACTORY,
+  UNISWAP_V3_FACTORY,
+  AERODROME_FACTORY,
+} from "../config/index.js";
+import { getPublicClient } from "../chain/wallet.js";
+import { logger } from "../utils/logger.js";
+import type { PairPin, PriceSource, TokenQuote } from "./types.js";
+
+// Prices read straight from pool state on Base — no HTTP API in the path, so
+// stop-losses keep working through a DexScreener outage.
+
+// ── Types ──────────────────────────────────────────────────────────
+
+export type PoolKind = "uniswap-v2" | "uniswap-v3" | "aerodrome";
+
+/** A DEX factory to discover pools through */
+export interface Venue {
+  kind: PoolKind;
+  factory: Address;
+}
+
+export interface OnChainSourceOptions {
+  /** Client to read pools with (default: the wallet's public client) — point it at an Anvil fork to test */
+  client?: () => PublicClient;
+  /** Factories to search (default: Uniswap V2, Uniswap V3 and Aerodrome on Base) */
+  venues?: Venue[];
+  /** Stablecoin valued at $1 (default: USDC) */
+  usdc?: Address;
+  /** Wrapped native token, valued through its own USDC pool (default: WETH) */
+  weth?: Address;
+}
+
+interface Pool {
+  address: Address;
+  kind: PoolKind;
+  /** The other token of the pair (USDC or WETH) */
+  quoteToken: Address;
+  /** Aerodrome stable (x³y + xy³) pool */
+  stable?: boolean;
+}
+
+// ── Constants ──────────────────────────────────────────────────────
+
+export const BASE_VENUES: Venue[] = [
+  { kind: "uniswap-v2", factory: UNISWAP_V2_FACTORY },
+  { kind: "uniswap-v3", factory: UNISWAP_V3_FACTORY },
+  { kind: "aerodrome", factory: AERODROME_FACTORY },
+];
+
+const V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+/** Pools rarely change — rediscover this often to pick up newly created ones */
+const POOL_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const V2_FACTORY_ABI = parseAbi([
+  "function getPair(address tokenA, address tokenB) view returns (address)",
+]);
+const V3_FACTORY_ABI = parseAbi([
+  "function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)",
+]);
+const AERODROME_FACTORY_ABI = parseAbi([
+  "function getPool(address tokenA, address tokenB, bool stable) view returns (address)",
+]);
+// Uniswap V2 returns (uint112, uint112, uint32) and Aerodrome (uint256, uint256, uint256) — same encoding
+const RESERVES_ABI = parseAbi([
+  "function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)",
+]);
+const V3_POOL_ABI = parseAbi([
+  "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
+]);
+// Shared by all three pool kinds — used to identify a pinned pair
+const PAIR_TOKENS_ABI = parseAbi([
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+]);
+const AERODROME_POOL_ABI = parseAbi(["function stable() view returns (bool)"]);
+
+// ── Source ─────────────────────────────────────────────────────────
+
+/**
+ * On-chain price source. For each token it finds the USDC and WETH pools on
+ * the configured venues, reads their state and quotes from the one with the
+ * most liquidity (like DexScreener's best pair). WETH-quoted prices are
+ * converted to USD through the deepest WETH/USDC pool. Liquidity is twice the
+ * pool's quote-token balance in USD; 24h volume isn't available on-chain. Pinned pairs
+ * are read directly, provided they pair the token with USDC or WETH.
+ */
+export function createOnChainSource(options: OnChainSourceOptions = {}): PriceSource {
+  const getClient = options.client ?? (getPublicClient as () => PublicClient);
+  const venues = options.venues ?? BASE_VENUES;
+  const usdc = options.usdc ?? USDC_ADDRESS;
+  const weth = options.weth ?? WETH_ADDRESS;
+
+  const decimalsCache = new Map<string, number>();
+  const poolCache = new Map<string, { pools: Pool[]; at: number }>();
+  /** Identified pinned pairs by lowercase address */
+  const pinnedPoolCache = new Map<string, Pool>();
+
+  async function decimals(token: Address): Promise<number> {
+    const key = token.toLowerCase();
+    const cached = decimalsCache.get(key);
+    if (cached !== undefined) return cached;
+    const value = Number(await getClient().readContract({ address: token, abi: ERC20_ABI, functionName: "decimals" }));
+    decimalsCache.set(key, value);
+    return value;
+  }
+
+  /** Every existing pool pairing `token` with one of `quoteTokens` (failed lookups are skipped) */
+  async function discoverPools(token: Address, quoteTokens: Address[]): Promise<Pool[]> {
+    const key = `${token.toLowerCase()}:${quoteTokens.join(",").toLowerCase()}`;
+    const cached = poolCache.get(key);
+    if (cached && Date.now() - cached.at < POOL_CACHE_TTL_MS) return cached.pools;
+
+    const client = getClient();
+    const lookups: Array<Promise<Pool | null>> = [];
+    const lookup = (read: Promise<Address>, pool: Omit<Pool, "address">) =>
+      lookups.push(
+        read
+          .then((address) => (address && address !== zeroAddress ? { ...pool, address } : null))
+          .catch(() => null)
+      );
+
+    for (const quoteToken of quoteTokens) {
+      for (const venue of venues) {
+        switch (venue.kind) {
+          case "uniswap-v2":
+            lookup(
+              client.readContract({ address: venue.factory, abi: V2_FACTORY_ABI, functionName: "getPair", args: [token, quoteToken] }),
+              { kind: venue.kind, quoteToken }
+            );
+            break;
+          case "uniswap-v3":
+            for (const fee of V3_FEE_TIERS) {
+              lookup(
+                client.readContract({ address: venue.factory, abi: V3_FACTORY_ABI, functionName: "getPool", args: [token, quoteToken, fee] }),
+                { kind: venue.kind, quoteToken }
+              );
+            }
+            break;
+          case "aerodrome":
+            for (const stable of [false, true]) {
+              lookup(
+                client.readContract({ address: venue.factory, abi: AERODROME_FACTORY_ABI, functionName: "getPool", args: [token, quoteToken, stable] }),
+                { kind: venue.kind, quoteToken, stable }
+              );
+            }
+            break;
+        }
+      }
+    }
+
+    const pools = (await Promise.all(lookups)).filter((p): p is Pool => p !== null);
+    poolCache.set(key, { pools, at: Date.now() });
+    return pools;
+  }
+
+  /** Spot price of `token` in units of the pool's quote token, plus the pool's quote-token balance */
+  async function readPool(pool: Pool, token: Address): Promise<{ priceInQuote: number; quoteBalance: number } | null> {
+    const client = getClient();
+    const [tokenDecimals, quoteDecimals] = await Promise.all([decimals(token), decimals(pool.quoteToken)]);
+    const quoteRaw = await client.readContract({
+      address: pool.quoteToken,
+      abi: ERC20_ABI,
+      functionName: "balanceOf",
+      args: [pool.address],
+    });
+    const quoteBalance = Number(formatUnits(quoteRaw, quoteDecimals));
+
+    // Both Uniswap and Aerodrome order token0/token1 by address
+    const tokenIsToken0 = token.toLowerCase() < pool.quoteToken.toLowerCase();
+    let priceInQuote: number;
+
+    if (pool.kind === "uniswap-v3") {
+      const [sqrtPriceX96] = await client.readContract({ address: pool.address, abi: V3_POOL_ABI, functionName: "slot0" });
+      // token1 per token0 in raw units, then adjusted for decimals
+      const raw = (Number(sqrtPriceX96) / 2 ** 96) ** 2;
+      const [decimals0, decimals1] = tokenIsToken0 ? [tokenDecimals, quoteDecimals] : [quoteDecimals, tokenDecimals];
+      const price1Per0 = raw * 10 ** (decimals0 - decimals1);
+      if (!(price1Per0 > 0)) return null;
+      priceInQuote = tokenIsToken0 ? price1Per0 : 1 / price1Per0;
+    } else {
+      const [reserve0, reserve1] = await client.readContract({ address: pool.address, abi: RESERVES_ABI, functionName: "getReserves" });
+      const x = Number(formatUnits(tokenIsToken0 ? reserve0 : reserve1, tokenDecimals));
+      const y = Number(formatUnits(tokenIsToken0 ? reserve1 : reserve0, quoteDecimals));
+      if (x <= 0 || y <= 0) return null;
+      // Stable pools price on the x³y + xy³ curve: marginal dy/dx = (3x²y + y³) / (x³ + 3xy²)
+      priceInQuote = pool.stable ? (3 * x * x * y + y ** 3) / (x ** 3 + 3 * x * y * y) : y / x;
+    }
+
+    return { priceInQuote, quoteBalance };
+  }
+
+  /** USD quote for `token` from one pool (null if unreadable or the quote token isn't valued) */
+  async function quoteFromPool(pool: Pool, token: Address, quoteUsd: Map<string, number>): Promise<TokenQuote | null> {
+    const usdPerQuote = quoteUsd.get(pool.quoteToken.toLowerCase());
+    if (!usdPerQuote) return null;
+
+    let state: Awaited<ReturnType<typeof readPool>>;
+    try {
+      state = await readPool(pool, token);
+    } catch (err) {
+      logger.debug({ err, pool: pool.address, kind: pool.kind }, "Failed to read pool state");
+      return null;
+    }
+    if (!state) return null;
+
+    const priceUsd = state.priceInQuote * usdPerQuote;
+    // Depth from the quote side only: valuing the token side at the pool's own
+    // spot price would let a one-sided position at an absurd price outrank real pools
+    const liquidityUsd = 2 * state.quoteBalance * usdPerQuote;
+    if (!isFinite(priceUsd) || priceUsd <= 0) return null;
+
+    return {
+      priceUsd,
+      liquidityUsd,
+      pairAddress: pool.address,
+      url: `https://dexscreener.com/base/${pool.address.toLowerCase()}`,
+      source: "onchain",
+    };
+  }
+
+  /** Quote from the deepest pool pairing `token` with a quote token whose USD value is known */
+  async function bestQuote(token: Address, quoteUsd: Map<string, number>): Promise<TokenQuote | null> {
+    const pools = await discoverPools(token, [...quoteUsd.keys()] as Address[]);
+    let best: TokenQuote | null = null;
+
+    for (const pool of pools) {
+      const quote = await quoteFromPool(pool, token, quoteUsd);
+      if (!quote) continue;
+      if (best && (best.liquidityUsd ?? 0) >= (quote.liquidityUsd ?? 0)) continue;
+      best = quote;
+    }
+
+    return best;
+  }
+
+  /**
+   * Identify a pinned pair: its tokens must be `token` and a quote token
+   * (USDC or WETH). Uniswap V3 pools answer slot0(), Aerodrome pools stable();
+   * anything else with the pair interface is read as a V2-style pool.
+   */
+  async function identifyPool(pairAddress: Address, token: Address, quoteTokens: Address[]): Promise<Pool | null> {
+    const key = pairAddress.toLowerCase();
+    const cached = pinnedPoolCache.get(key);
+    if (cached) return cached;
+
+    const client = getClient();
+    const [token0, token1] = await Promise.all([
+      client.readContract({ address: pairAddress, abi: PAIR_TOKENS_ABI, functionName: "token0" }),
+      client.readContract({ address: pairAddress, abi: PAIR_TOKENS_ABI, functionName: "token1" }),
+    ]);
+    const other = token0.toLowerCase() === token.toLowerCase()
+      ? token1
+      : token1.toLowerCase() === token.toLowerCase() ? token0 : null;
+    const quoteToken = quoteTokens.find((q) => q.toLowerCase() === other?.toLowerCase());
+    if (!quoteToken) return null;
+
+    const isV3 = await client
+      .readContract({ address: pairAddress, abi: V3_POOL_ABI, functionName: "slot0" })
+      .then(() => true, () => false);
+    const stable = isV3
+      ? undefined
+      : await client
+          .readContract({ address: pairAddress, abi: AERODROME_POOL_ABI, functionName: "stable" })
+          .catch(() => undefined);
+    const pool: Pool = isV3
+      ? { address: pairAddress, kind: "uniswap-v3", quoteToken }
+      : stable !== undefined
+        ? { address: pairAddress, kind: "aerodrome", quoteToken, stable }
+        : { address: pairAddress, kind: "uniswap-v2", quoteToken };
+
+    pinnedPoolCache.set(key, pool);
+    return pool;
+  }
+
+  /** USD value of each quote token (USDC = 1, WETH via its deepest USDC pool), plus WETH's own quote */
+  async function quoteTokenPrices(): Promise<{ quoteUsd: Map<string, number>; wethQuote: TokenQuote | null }> {
+    const usdcKey = usdc.toLowerCase();
+    const quoteUsd = new Map<string, number>([[usdcKey, 1]]);
+    let wethQuote: TokenQuote | null = null;
+
+    try {
+      wethQuote = await bestQuote(weth, new Map([[usdcKey, 1]]));
+      if (wethQuote) quoteUsd.set(weth.toLowerCase(), wethQuote.priceUsd);
+    } catch (err) {
+      logger.warn({ err }, "Failed to price WETH on-chain — USDC pools only");
+    }
+
+    return { quoteUsd, wethQuote };
+  }
+
+  return {
+    name: "onchain",
+    async getQuotes(tokenAddresses: Address[]): Promise<Map<string, TokenQuote>> {
+      const quotes = new Map<string, TokenQuote>();
+      if (tokenAddresses.length === 0) return quotes;
+
+      const usdcKey = usdc.toLowerCase();
+      const wethKey = weth.toLowerCase();
+      const { quoteUsd, wethQuote } = await quoteTokenPrices();
+      if (wethQuote) quotes.set(wethKey, wethQuote);
+
+      await Promise.all(
+        tokenAddresses.map(async (token) => {
+          const key = token.toLowerCase();
+          if (key === usdcKey || key === wethKey) return;
+          try {
+            const quote = await bestQuote(token, quoteUsd);
+            if (quote) quotes.set(key, quote);
+          } catch (err) {
+            logger.warn({ err, token }, "Failed to fetch on-chain price");
+          }
+        })
+      );
+
+      // Only return what was asked for
+      if (!tokenAddresses.some((t) => t.toLowerCase() === wethKey)) quotes.delete(wethKey);
+      return quotes;
+    },
+
+    async getPairQuotes(pins: PairPin[]): Promise<Map<string, TokenQuote>> {
+      const quotes = new Map<string, TokenQuote>();
+      if (pins.length === 0) return quotes;
+
+      const { quoteUsd } = await quoteTokenPrices();
+
+      await Promise.all(
+        pins.map(async (pin) => {
+          try {
+            const pool = await identifyPool(pin.pairAddress, pin.token, [usdc, weth]);
+            if (!pool) {
+              logger.debug({ token: pin.token, pair: pin.pairAddress }, "Pinned pair isn't a USDC/WETH pool of the token");
+              return;
+            }
+            const quote = await quoteFromPool(pool, pin.token, quoteUsd);
+            if (quote) quotes.set(pin.token.toLowerCase(), quote);
+          } catch (err) {
+            logger.warn({ err, token: pin.token, pair: pin.pairAddress }, "Failed to fetch on-chain pair price");
+          }
+        })
+      );
+
+      return quotes;
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import type { Address } from "viem";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** Price and pool state of a token's best Base pair */
+export interface TokenQuote {
+  priceUsd: number;
+  /** Pool liquidity in USD (undefined if the source didn't report it) */
+  liquidityUsd?: number;
+  /** 24h trading volume in USD (undefined if the source didn't report it) */
+  volume24hUsd?: number;
+  pairAddress: string;
+  url: string;
+  /** Name of the price source that produced the quote */
+  source: string;
+}
+
+/** A token priced from one specific pool instead of its deepest one */
+export interface PairPin {
+  token: Address;
+  pairAddress: Address;
+}
+
+/** A provider of token prices — see src/pricing/index.ts for priority and failover */
+export interface PriceSource {
+  /** Name used in PRICE_SOURCES, e.g. "dexscreener" */
+  name: string;
+  /**
+   * Quotes keyed by lowercase token address. Tokens the source can't price are
+   * simply missing from the map; the next source in priority order gets them.
+   */
+  getQuotes(tokenAddresses: Address[]): Promise<Map<string, TokenQuote>>;
+  /**
+   * Quotes from the pinned pair only, keyed by lowercase token address.
+   * Sources without it are skipped for pinned tokens rather than quoting
+   * them from a different pool.
+   */
+  getPairQuotes?(pins: PairPin[]): Promise<Map<string, TokenQuote>>;
+}
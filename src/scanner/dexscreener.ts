@@ -1,10 +1,15 @@
 import type { Address } from "viem";
+import type { PairPin, TokenQuote } from "../pricing/types.js";
 import { logger } from "../utils/logger.js";
 
 // ── Types ──────────────────────────────────────────────────────────
 
 interface DexScreenerPair {
   chainId: string;
+  /** DEX the pool lives on, e.g. "uniswap", "aerodrome" */
+  dexId: string;
+  /** Pool flavour tags, e.g. ["v3"] */
+  labels?: string[];
   url: string;
   pairAddress: string;
   baseToken: {
@@ -12,10 +17,17 @@ interface DexScreenerPair {
     name: string;
     symbol: string;
   };
+  quoteToken: {
+    address: string;
+    symbol: string;
+  };
   priceUsd: string;
   liquidity?: {
     usd: number;
   };
+  volume?: {
+    h24?: number;
+  };
 }
 
 export interface TokenInfo {
@@ -24,120 +36,414 @@ export interface TokenInfo {
   name: string;
   priceUsd: number;
   dexScreenerUrl: string;
+  /** Pair the price was taken from */
+  pairAddress: string;
+}
+
+/** One of a token's Base pairs, for picking a pair to pin */
+export interface TokenPair {
+  pairAddress: string;
+  dexId: string;
+  labels: string[];
+  quoteSymbol: string;
+  liquidityUsd?: number;
+  priceUsd: number;
+  url: string;
+}
+
+/** Health of the shared DexScreener client, for /status and the API */
+export interface DexScreenerStats {
+  /** HTTP requests sent, including retries */
+  requests: number;
+  /** Token and pair lookups answered from the cache or a request already in flight */
+  cacheHits: number;
+  /** Token and pair lookups that needed a request */
+  cacheMisses: number;
+  /** cacheHits / all lookups (0 before the first lookup) */
+  hitRate: number;
+  /** HTTP 429 responses received */
+  rateLimited: number;
+  /** Requests given up on (after retries, or refused by the budget / backoff) */
+  failures: number;
+  /** Requests sent in the last minute, against the budget below */
+  budgetUsed: number;
+  budgetPerMinute: number;
+  /** Set while requests are held back after a 429 */
+  backoffUntil?: number;
+  lastSuccessAt?: number;
+  lastError?: { message: string; at: number };
+  /** Last request succeeded (false before the first one) */
+  healthy: boolean;
 }
 
 // ── Constants ──────────────────────────────────────────────────────
 
 const DEXSCREENER_API = "https://api.dexscreener.com";
 
-// ── API helper ─────────────────────────────────────────────────────
+/** DexScreener allows up to 30 addresses per /tokens/v1 request */
+const MAX_ADDRESSES_PER_REQUEST = 30;
 
-async function fetchJson<T>(url: string): Promise<T> {
-  const res = await fetch(url, {
-    headers: { "User-Agent": "openclaw-trader/1.0" },
-  });
-  if (!res.ok) {
-    throw new Error(`DexScreener API error: ${res.status} ${res.statusText}`);
+/**
+ * DexScreener publishes 300 requests/min for /tokens/v1. Budget a bit under
+ * that so a burst of Telegram commands can't push the tick loop into 429s.
+ */
+const REQUEST_BUDGET_PER_MIN = 250;
+const BUDGET_WINDOW_MS = 60_000;
+
+/** Short enough that fast polling still sees fresh prices, long enough to dedupe bursts */
+const CACHE_TTL_MS = 3_000;
+
+const REQUEST_TIMEOUT_MS = 5_000;
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30_000;
+
+/**
+ * Longest a request will queue for budget or a 429 backoff. Past this it fails
+ * fast so the next price source (on-chain) answers instead of stalling the tick.
+ */
+const MAX_QUEUE_WAIT_MS = 2_000;
+
+// ── State ──────────────────────────────────────────────────────────
+
+/**
+ * Pairs per "<kind>:<lowercase address>" — a token's Base pairs, or the single
+ * pair behind a pair address ([] = DexScreener doesn't know it)
+ */
+const pairCache = new Map<string, { pairs: DexScreenerPair[]; at: number }>();
+
+/** Lookups already on the wire, so concurrent callers share one request */
+const inFlight = new Map<string, Promise<DexScreenerPair[]>>();
+
+/** Send times of requests within the budget window */
+const requestLog: number[] = [];
+
+let backoffUntil = 0;
+let consecutive429s = 0;
+
+const stats = {
+  requests: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
+  rateLimited: 0,
+  failures: 0,
+  lastSuccessAt: undefined as number | undefined,
+  lastError: undefined as { message: string; at: number } | undefined,
+};
+
+// ── HTTP client ────────────────────────────────────────────────────
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Exponential delay for the given retry (1-based), with ±25% jitter */
+function backoffDelay(attempt: number): number {
+  const base = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  return Math.round(base * (0.75 + Math.random() / 2));
+}
+
+function recordFailure(err: Error): Error {
+  stats.failures++;
+  stats.lastError = { message: err.message, at: Date.now() };
+  return err;
+}
+
+/**
+ * Wait for room in the request budget and for any 429 backoff to pass.
+ * Throws instead of waiting longer than MAX_QUEUE_WAIT_MS.
+ */
+async function acquireBudget(): Promise<void> {
+  for (;;) {
+    const now = Date.now();
+    while (requestLog.length > 0 && now - requestLog[0] >= BUDGET_WINDOW_MS) requestLog.shift();
+
+    const budgetWait = requestLog.length >= REQUEST_BUDGET_PER_MIN
+      ? requestLog[0] + BUDGET_WINDOW_MS - now
+      : 0;
+    const waitMs = Math.max(budgetWait, backoffUntil - now);
+    if (waitMs <= 0) {
+      requestLog.push(now);
+      return;
+    }
+    if (waitMs > MAX_QUEUE_WAIT_MS) {
+      const why = backoffUntil > now ? "backing off after HTTP 429" : "request budget used up";
+      throw new Error(`DexScreener ${why} — next request in ${Math.ceil(waitMs / 1000)}s`);
+    }
+    await sleep(waitMs);
   }
-  return res.json() as Promise<T>;
 }
 
 /**
- * Get current price of a token from DexScreener.
- * Returns price in USD or null if unavailable.
+ * GET a DexScreener endpoint within the request budget. Timeouts, network
+ * errors, 429s and 5xx responses are retried with exponential backoff; a 429
+ * also holds back every other request (honouring Retry-After).
  */
-export async function getTokenPrice(tokenAddress: Address): Promise<number | null> {
-  try {
-    // /tokens/v1/ returns a raw array of pairs (not wrapped in { pairs })
-    const pairs = await fetchJson<DexScreenerPair[]>(
-      `${DEXSCREENER_API}/tokens/v1/base/${tokenAddress}`
-    );
+async function fetchJson<T>(url: string): Promise<T> {
+  let lastError = new Error("DexScreener request not attempted");
 
-    if (!pairs || pairs.length === 0) return null;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    if (attempt > 1) await sleep(backoffDelay(attempt - 1));
 
-    // Find the Base chain pair with highest liquidity
-    const basePairs = pairs.filter((p) => p.chainId === "base");
-    if (basePairs.length === 0) return null;
+    try {
+      await acquireBudget();
+    } catch (err) {
+      throw recordFailure(err as Error);
+    }
+    stats.requests++;
 
-    basePairs.sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0));
-    const price = parseFloat(basePairs[0].priceUsd);
-    return isNaN(price) ? null : price;
-  } catch (err) {
-    logger.warn({ err, token: tokenAddress }, "Failed to fetch token price");
-    return null;
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        headers: { "User-Agent": "openclaw-trader/1.0" },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (err) {
+      lastError = (err as Error).name === "TimeoutError"
+        ? new Error(`DexScreener request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)
+        : new Error(`DexScreener request failed: ${String(err)}`);
+      logger.debug({ attempt, error: lastError.message }, "DexScreener request failed — retrying");
+      continue;
+    }
+
+    if (res.ok) {
+      const data = (await res.json()) as T;
+      consecutive429s = 0;
+      stats.lastSuccessAt = Date.now();
+      return data;
+    }
+
+    lastError = new Error(`DexScreener API error: ${res.status} ${res.statusText}`);
+
+    if (res.status === 429) {
+      stats.rateLimited++;
+      consecutive429s++;
+      const retryAfterSec = Number(res.headers.get("retry-after"));
+      const delayMs = Math.max(
+        backoffDelay(consecutive429s),
+        Number.isFinite(retryAfterSec) ? retryAfterSec * 1000 : 0
+      );
+      backoffUntil = Math.max(backoffUntil, Date.now() + delayMs);
+      logger.warn({ delayMs, consecutive429s }, "DexScreener rate limit hit — backing off");
+      continue;
+    }
+
+    // Other 4xx won't get better by asking again
+    if (res.status < 500) break;
+    logger.debug({ attempt, status: res.status }, "DexScreener server error — retrying");
   }
+
+  throw recordFailure(lastError);
 }
 
+type LookupKind = "token" | "pair";
+
+/** Endpoint and response filter for each kind of lookup (both take up to 30 addresses) */
+const LOOKUPS: Record<LookupKind, { path: string; select: (body: unknown, key: string) => DexScreenerPair[] }> = {
+  // /tokens/v1/ returns a raw array of pairs (not wrapped in { pairs })
+  token: {
+    path: "/tokens/v1/base/",
+    select: (body, key) =>
+      ((body as DexScreenerPair[] | null) ?? []).filter(
+        (p) => p.chainId === "base" && p.baseToken.address.toLowerCase() === key
+      ),
+  },
+  pair: {
+    path: "/latest/dex/pairs/base/",
+    select: (body, key) =>
+      ((body as { pairs?: DexScreenerPair[] | null } | null)?.pairs ?? []).filter(
+        (p) => p.chainId === "base" && p.pairAddress.toLowerCase() === key
+      ),
+  },
+};
+
 /**
- * Get prices for multiple tokens efficiently.
- * DexScreener allows comma-separated token addresses.
+ * Pairs for each token (kind "token") or pair address (kind "pair"), keyed by
+ * lowercase address. Fresh cache entries and lookups already in flight are
+ * reused; the rest are fetched in batches of 30. Addresses whose request
+ * failed are missing from the result.
  */
-export async function getTokenPrices(
-  tokenAddresses: Address[]
-): Promise<Map<string, number>> {
-  const prices = new Map<string, number>();
-  if (tokenAddresses.length === 0) return prices;
-
-  // DexScreener allows up to 30 addresses per request
-  const chunks: Address[][] = [];
-  for (let i = 0; i < tokenAddresses.length; i += 30) {
-    chunks.push(tokenAddresses.slice(i, i + 30));
+async function lookupPairs(kind: LookupKind, addresses: string[]): Promise<Map<string, DexScreenerPair[]>> {
+  const keys = [...new Set(addresses.map((a) => a.toLowerCase()))];
+  const cacheKey = (key: string) => `${kind}:${key}`;
+  const now = Date.now();
+
+  const toFetch: string[] = [];
+  for (const key of keys) {
+    const cached = pairCache.get(cacheKey(key));
+    // Joining a request already on the wire costs nothing either
+    if ((cached && now - cached.at < CACHE_TTL_MS) || inFlight.has(cacheKey(key))) {
+      stats.cacheHits++;
+    } else {
+      stats.cacheMisses++;
+      toFetch.push(key);
+    }
   }
 
-  for (const chunk of chunks) {
-    try {
-      const joined = chunk.join(",");
-      // /tokens/v1/ returns a raw array of pairs (not wrapped in { pairs })
-      const pairs = await fetchJson<DexScreenerPair[]>(
-        `${DEXSCREENER_API}/tokens/v1/base/${joined}`
-      );
+  const { path, select } = LOOKUPS[kind];
+  for (let i = 0; i < toFetch.length; i += MAX_ADDRESSES_PER_REQUEST) {
+    const chunk = toFetch.slice(i, i + MAX_ADDRESSES_PER_REQUEST);
+    const request = fetchJson<unknown>(`${DEXSCREENER_API}${path}${chunk.join(",")}`);
 
-      if (!pairs || pairs.length === 0) continue;
+    for (const key of chunk) {
+      const lookup = request.then((body) => select(body, key));
+      inFlight.set(cacheKey(key), lookup);
+      lookup
+        .then((pairs) => pairCache.set(cacheKey(key), { pairs, at: Date.now() }), () => {})
+        .finally(() => inFlight.delete(cacheKey(key)));
+    }
+  }
 
-      // Group by base token, pick highest-liquidity Base chain pair
-      const byToken = new Map<string, DexScreenerPair[]>();
-      for (const pair of pairs) {
-        if (pair.chainId !== "base") continue;
-        const addr = pair.baseToken.address.toLowerCase();
-        if (!byToken.has(addr)) byToken.set(addr, []);
-        byToken.get(addr)!.push(pair);
+  const result = new Map<string, DexScreenerPair[]>();
+  const failures: string[] = [];
+  await Promise.all(
+    keys.map(async (key) => {
+      const cached = pairCache.get(cacheKey(key));
+      if (cached && now - cached.at < CACHE_TTL_MS) {
+        result.set(key, cached.pairs);
+        return;
       }
-
-      for (const [addr, tokenPairs] of byToken) {
-        tokenPairs.sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0));
-        const price = parseFloat(tokenPairs[0].priceUsd);
-        if (!isNaN(price)) {
-          prices.set(addr, price);
-        }
+      try {
+        result.set(key, await inFlight.get(cacheKey(key))!);
+      } catch (err) {
+        failures.push(String(err));
       }
-    } catch (err) {
-      logger.warn({ err }, "Failed to batch-fetch token prices");
-    }
+    })
+  );
+
+  if (failures.length > 0) {
+    logger.warn({ kind, count: failures.length, error: failures[0] }, "Failed to fetch DexScreener pairs");
+  }
+  return result;
+}
+
+function toQuote(pair: DexScreenerPair): TokenQuote | null {
+  const price = parseFloat(pair.priceUsd);
+  if (isNaN(price)) return null;
+  return {
+    priceUsd: price,
+    liquidityUsd: pair.liquidity?.usd,
+    volume24hUsd: pair.volume?.h24,
+    pairAddress: pair.pairAddress,
+    url: pair.url,
+    source: "dexscreener",
+  };
+}
+
+/** Highest-liquidity pair of a token */
+function bestPair(pairs: DexScreenerPair[]): DexScreenerPair | undefined {
+  return [...pairs].sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0))[0];
+}
+
+/** Snapshot of the client's cache hit rate, request budget and last outcome */
+export function getDexScreenerStats(): DexScreenerStats {
+  const now = Date.now();
+  const lookups = stats.cacheHits + stats.cacheMisses;
+  return {
+    requests: stats.requests,
+    cacheHits: stats.cacheHits,
+    cacheMisses: stats.cacheMisses,
+    hitRate: lookups > 0 ? stats.cacheHits / lookups : 0,
+    rateLimited: stats.rateLimited,
+    failures: stats.failures,
+    budgetUsed: requestLog.filter((at) => now - at < BUDGET_WINDOW_MS).length,
+    budgetPerMinute: REQUEST_BUDGET_PER_MIN,
+    backoffUntil: backoffUntil > now ? backoffUntil : undefined,
+    lastSuccessAt: stats.lastSuccessAt,
+    lastError: stats.lastError,
+    healthy: stats.lastSuccessAt !== undefined &&
+      (stats.lastError === undefined || stats.lastError.at < stats.lastSuccessAt),
+  };
+}
+
+// ── Quotes ─────────────────────────────────────────────────────────
+
+/**
+ * Get price + liquidity for multiple tokens in batched requests.
+ * Keys are lowercase token addresses; tokens without a usable Base pair are omitted.
+ */
+export async function getTokenQuotes(
+  tokenAddresses: Address[]
+): Promise<Map<string, TokenQuote>> {
+  const quotes = new Map<string, TokenQuote>();
+  if (tokenAddresses.length === 0) return quotes;
+
+  const pairsByToken = await lookupPairs("token", tokenAddresses);
+  for (const [addr, pairs] of pairsByToken) {
+    const best = bestPair(pairs);
+    const quote = best && toQuote(best);
+    if (quote) quotes.set(addr, quote);
+  }
+
+  return quotes;
+}
+
+/**
+ * Quotes from specific pairs, for monitors pinned to one pool. Keyed by
+ * lowercase token address; a pin whose pair isn't a Base pair of that token
+ * (or couldn't be fetched) is omitted.
+ */
+export async function getPairQuotes(pins: PairPin[]): Promise<Map<string, TokenQuote>> {
+  const quotes = new Map<string, TokenQuote>();
+  if (pins.length === 0) return quotes;
+
+  const pairs = await lookupPairs("pair", pins.map((p) => p.pairAddress));
+  for (const pin of pins) {
+    const pair = pairs.get(pin.pairAddress.toLowerCase())?.[0];
+    if (!pair || pair.baseToken.address.toLowerCase() !== pin.token.toLowerCase()) continue;
+    const quote = toQuote(pair);
+    if (quote) quotes.set(pin.token.toLowerCase(), quote);
   }
 
-  return prices;
+  return quotes;
+}
+
+/**
+ * A token's Base pairs, highest liquidity first (only pairs where it is the
+ * base token — DexScreener prices those). Null if the lookup failed.
+ */
+export async function getTokenPairs(tokenAddress: string): Promise<TokenPair[] | null> {
+  const pairs = (await lookupPairs("token", [tokenAddress])).get(tokenAddress.toLowerCase());
+  if (!pairs) return null;
+
+  return [...pairs]
+    .sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0))
+    .map((p) => ({
+      pairAddress: p.pairAddress,
+      dexId: p.dexId,
+      labels: p.labels ?? [],
+      quoteSymbol: p.quoteToken.symbol,
+      liquidityUsd: p.liquidity?.usd,
+      priceUsd: parseFloat(p.priceUsd) || 0,
+      url: p.url,
+    }));
 }
 
 // ── Token info ─────────────────────────────────────────────────────
 
 /**
  * Get full token information (symbol, name, price, DexScreener URL)
- * for a given contract address on Base.
- * Returns null if the token cannot be found.
+ * for a given contract address on Base, from its highest-liquidity pair or
+ * from `pairAddress` when the monitor is pinned to one.
+ * Returns null if the token (or that pair of it) cannot be found.
  */
-export async function getTokenInfo(tokenAddress: string): Promise<TokenInfo | null> {
-  try {
-    const pairs = await fetchJson<DexScreenerPair[]>(
-      `${DEXSCREENER_API}/tokens/v1/base/${tokenAddress}`
-    );
-
-    if (!pairs || pairs.length === 0) return null;
+export async function getTokenInfo(tokenAddress: string, pairAddress?: string): Promise<TokenInfo | null> {
+  const info = await lookupTokenInfo(tokenAddress, pairAddress);
+  return info === "not-found" ? null : info;
+}
 
-    const basePairs = pairs.filter((p) => p.chainId === "base");
-    if (basePairs.length === 0) return null;
+/**
+ * Like getTokenInfo, but tells a failed lookup (null — DexScreener down or
+ * backing off) apart from a token or pair it doesn't know ("not-found").
+ */
+export async function lookupTokenInfo(tokenAddress: string, pairAddress?: string): Promise<TokenInfo | "not-found" | null> {
+  try {
+    // Missing means the request failed (already logged)
+    const pairs = pairAddress
+      ? (await lookupPairs("pair", [pairAddress])).get(pairAddress.toLowerCase())
+      : (await lookupPairs("token", [tokenAddress])).get(tokenAddress.toLowerCase());
+    if (!pairs) return null;
+    const best = bestPair(pairs);
+    if (!best || best.baseToken.address.toLowerCase() !== tokenAddress.toLowerCase()) return "not-found";
 
-    basePairs.sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0));
-    const best = basePairs[0];
     const price = parseFloat(best.priceUsd);
 
     return {
@@ -146,6 +452,7 @@ export async function getTokenInfo(tokenAddress: string): Promise<TokenInfo | nu
       name: best.baseToken.name,
       priceUsd: isNaN(price) ? 0 : price,
       dexScreenerUrl: best.url,
+      pairAddress: best.pairAddress,
     };
   } catch (err) {
     logger.warn({ err, token: tokenAddress }, "Failed to fetch token info");
@@ -0,0 +1,342 @@
+import { type Address } from "viem";
+import { type Context } from "grammy";
+import { config } from "../config/index.js";
+import { getTokenBalance, getUsdcBalanceFormatted } from "../chain/wallet.js";
+import { getTokenInfo } from "../scanner/dexscreener.js";
+import {
+  updateMonitor,
+  removeMonitor,
+  addMonitor,
+  addHistoryEntry,
+  forceSellByAddress,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { buyToken } from "../swap/executor.js";
+import {
+  notifyBuyback,
+  notifyBuybackTakeProfit,
+  notifyBudgetExhausted,
+} from "../telegram/bot.js";
+import { escapeHtml } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import {
+  tradingBlocked,
+  processTakeProfits,
+  checkMilestones,
+  checkDrawdown,
+  fillPriceFromSwap,
+  blendCostBasis,
+  describeStopLoss,
+  describeMilestones,
+  stopAndLadderTriggers,
+  monitorPriceCheck,
+} from "./shared.js";
+import type { Strategy } from "./types.js";
+
+// ── Buyback monitor ────────────────────────────────────────────────
+
+async function processBuyback(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  const notifyPct = monitor.notifyPercent ?? 25;
+  const buybackPct = monitor.buybackPercent ?? 10;
+  const usdcPerBuy = monitor.usdcPerBuyback ?? 0;
+  const totalBudget = monitor.totalUsdcBudget ?? 0;
+  let usdcSpent = monitor.usdcSpent ?? 0;
+  let lastBuybackLevel = monitor.lastBuybackLevel ?? 0;
+
+  // ── Take-profit ladder ─────────────────────────────────────────
+  if (await processTakeProfits(monitor, currentPrice)) return;
+
+  // ── Take-profit vs blended average cost ────────────────────────
+  const avgCost = monitor.avgCostPrice ?? monitor.entryPrice;
+  const takeProfitPct = monitor.takeProfitPercent ?? 0;
+  if (takeProfitPct > 0 && avgCost > 0 && currentPrice >= avgCost * (1 + takeProfitPct / 100)) {
+    if (await tradingBlocked(monitor, "take-profit sell", currentPrice)) return;
+
+    const gainPercent = ((currentPrice - avgCost) / avgCost) * 100;
+    logger.info(
+      { symbol: monitor.symbol, currentPrice, avgCost, gainPercent: gainPercent.toFixed(1) },
+      "BUYBACK TAKE-PROFIT triggered — selling all holdings"
+    );
+
+    const result = await forceSellByAddress(monitor.address, monitor.symbol, "take-profit", monitorPriceCheck(monitor, currentPrice));
+    // Held back by the price-deviation check, which has already alerted — retry next tick
+    if (result.deferred) return;
+    const isZeroBalance = result.error?.includes("Zero token balance") ?? false;
+
+    await notifyBuybackTakeProfit(
+      monitor.symbol,
+      currentPrice,
+      avgCost,
+      gainPercent,
+      result.txHash ?? "",
+      result.success,
+      isZeroBalance
+    );
+
+    if (result.success || isZeroBalance) {
+      removeMonitor(monitor.address);
+      logger.info({ symbol: monitor.symbol }, "Buyback monitor removed after take-profit");
+    } else {
+      logger.error(
+        { symbol: monitor.symbol, error: result.error },
+        "Take-profit sell FAILED — will retry next tick"
+      );
+    }
+    return;
+  }
+
+  // ── Downside alerts (no sell) ──────────────────────────────────
+  await checkDrawdown(monitor, currentPrice);
+
+  // ── Custom % milestone check vs blended cost (upward only) ─────
+  await checkMilestones(monitor, currentPrice, notifyPct, avgCost, "Buyback monitor milestone reached");
+
+  // ── Buyback logic (downward) ───────────────────────────────────
+  if (monitor.entryPrice > 0 && currentPrice < monitor.entryPrice && usdcPerBuy > 0) {
+    const dropPercent = ((monitor.entryPrice - currentPrice) / monitor.entryPrice) * 100;
+    const dropLevel = Math.floor(dropPercent / buybackPct);
+
+    if (dropLevel > lastBuybackLevel) {
+      // Check if budget allows
+      if (usdcSpent >= totalBudget) {
+        logger.info(
+          { symbol: monitor.symbol, usdcSpent, totalBudget },
+          "Buyback budget exhausted — skipping"
+        );
+        return;
+      }
+
+      if (await tradingBlocked(monitor, "buyback", currentPrice)) return;
+
+      // Execute buyback
+      const buyAmount = Math.min(usdcPerBuy, totalBudget - usdcSpent);
+
+      logger.info(
+        {
+          symbol: monitor.symbol,
+          dropPercent: dropPercent.toFixed(1),
+          dropLevel,
+          lastBuybackLevel,
+          buyAmount,
+        },
+        "BUYBACK triggered — buying token"
+      );
+
+      const result = await buyToken(monitor.address as Address, buyAmount.toString(), monitorPriceCheck(monitor, currentPrice));
+      // Held back by the price-deviation check, which has already alerted — retry next tick
+      if (result.deferred) return;
+
+      // A failed buy still uses up the level (one alert, no retry loop) but spends no budget
+      lastBuybackLevel = dropLevel;
+      const updates: Partial<MonitoredToken> = { lastBuybackLevel };
+
+      if (result.success) {
+        usdcSpent += buyAmount;
+        updates.usdcSpent = usdcSpent;
+
+        const fillPrice = await fillPriceFromSwap(monitor.address, buyAmount, result, currentPrice);
+        Object.assign(updates, await blendCostBasis(monitor, buyAmount, BigInt(result.buyAmount ?? "0")));
+
+        addHistoryEntry({
+          type: "buy",
+          tokenAddress: monitor.address,
+          tokenSymbol: monitor.symbol,
+          price: fillPrice,
+          amount: result.buyAmount ?? "0",
+          usdcAmount: buyAmount.toString(),
+          txHash: result.txHash ?? "",
+          timestamp: Date.now(),
+          reason: "buyback",
+        });
+      }
+
+      const remaining = Math.max(0, totalBudget - usdcSpent);
+
+      await notifyBuyback(
+        monitor.symbol,
+        currentPrice,
+        monitor.entryPrice,
+        dropPercent,
+        buyAmount,
+        remaining,
+        result.txHash ?? "",
+        result.success,
+        updates.avgCostPrice ?? monitor.avgCostPrice
+      );
+
+      updateMonitor(monitor.address, updates);
+
+      if (!result.success) {
+        logger.error(
+          { symbol: monitor.symbol, error: result.error },
+          "Buyback buy FAILED — level skipped"
+        );
+        return;
+      }
+
+      if (usdcSpent >= totalBudget) {
+        await notifyBudgetExhausted(monitor.symbol, usdcSpent);
+        logger.info({ symbol: monitor.symbol }, "Buyback budget exhausted");
+      }
+    }
+  }
+}
+
+// ── /buyback command handler ───────────────────────────────────────
+
+async function handleBuyback(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 5) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/buyback &lt;contract-address&gt; &lt;notify-percent&gt; &lt;usdc-amount&gt; &lt;buyback-percent&gt; [take-profit%]</code>\n\n` +
+        `<b>Example:</b>\n<code>/buyback 0x1234...abcd 5 100 10 30</code>\n` +
+        `Notifies every +5% gain. Buys $100 USDC worth for every 10% dip from entry. ` +
+        `Sells everything once price is 30% above the average cost (optional).`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const notifyPercent = parseFloat(parts[2]);
+  const usdcAmount = parseFloat(parts[3]);
+  const buybackPercent = parseFloat(parts[4]);
+  const takeProfitPercent = parts[5] ? parseFloat(parts[5].replace("%", "")) : undefined;
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
+    return;
+  }
+  if (isNaN(notifyPercent) || notifyPercent <= 0) {
+    await ctx.reply("❌ Invalid notify percent. Must be a positive number.");
+    return;
+  }
+  if (isNaN(usdcAmount) || usdcAmount <= 0) {
+    await ctx.reply("❌ Invalid USDC amount. Must be a positive number.");
+    return;
+  }
+  if (isNaN(buybackPercent) || buybackPercent <= 0) {
+    await ctx.reply("❌ Invalid buyback percent. Must be a positive number.");
+    return;
+  }
+  if (takeProfitPercent !== undefined && (isNaN(takeProfitPercent) || takeProfitPercent <= 0)) {
+    await ctx.reply("❌ Invalid take-profit percent. Must be a positive number.");
+    return;
+  }
+
+  await ctx.reply("⏳ Looking up token...");
+  const info = await getTokenInfo(contractAddress);
+  if (!info) {
+    await ctx.reply(
+      `❌ Could not find token <code>${escapeHtml(contractAddress)}</code> on Base.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+  if (info.priceUsd <= 0) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(info.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  // Check USDC balance
+  const usdcBal = await getUsdcBalanceFormatted();
+  const usdcBalNum = parseFloat(usdcBal);
+  let balanceWarning = "";
+  if (usdcBalNum < usdcAmount) {
+    balanceWarning = `\n⚠️ <b>Warning:</b> USDC balance ($${usdcBalNum.toFixed(2)}) is less than budget ($${usdcAmount})`;
+  }
+
+  const monitor: MonitoredToken = {
+    type: "buyback",
+    address: info.address,
+    symbol: info.symbol,
+    name: info.name,
+    stopLossPrice: 0,  // No stop-loss for buyback strategy
+    entryPrice: info.priceUsd,
+    lastNotifiedMilestone: 0,
+    active: true,
+    dexScreenerUrl: info.dexScreenerUrl,
+    addedAt: Date.now(),
+    notifyPercent,
+    usdcPerBuyback: usdcAmount,
+    buybackPercent,
+    totalUsdcBudget: usdcBalNum, // Use available USDC balance as budget cap
+    usdcSpent: 0,
+    lastBuybackLevel: 0,
+    takeProfitPercent,
+    // Existing holding counts toward the average cost at the entry price
+    anchorTokens: (await getTokenBalance(info.address as Address)).toString(),
+  };
+
+  addMonitor(monitor);
+
+  const buybackSlots = Math.floor(usdcBalNum / usdcAmount);
+
+  await ctx.reply(
+    `✅ <b>Buyback monitor: ${escapeHtml(info.symbol)}</b>\n\n` +
+      `📍 Address: <code>${info.address}</code>\n` +
+      `💵 Entry price: $${info.priceUsd.toPrecision(6)}\n` +
+      `📊 Notify: every +${notifyPercent}% gain\n` +
+      `📉 Buyback: $${usdcAmount} USDC every -${buybackPercent}% drop\n` +
+      (takeProfitPercent ? `🎯 Take-profit: sell all at +${takeProfitPercent}% above average cost\n` : "") +
+      `💰 Budget: $${usdcBalNum.toFixed(2)} USDC (~${buybackSlots} buyback${buybackSlots !== 1 ? "s" : ""})\n` +
+      `⏱️ Checking every ${config.monitorIntervalSec}s` +
+      balanceWarning +
+      `\n\n${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const buybackStrategy: Strategy = {
+  type: "buyback",
+  icon: "🔄",
+  modifiers: ["ladder", "drawdown"],
+  validate: (m) => {
+    if ((m.usdcPerBuyback ?? 0) <= 0) return "USDC per buyback must be positive";
+    if ((m.buybackPercent ?? 0) <= 0) return "buyback percent must be positive";
+    return null;
+  },
+  evaluate: processBuyback,
+  triggerPrices: (m) => {
+    const triggers = stopAndLadderTriggers(m);
+    const avgCost = m.avgCostPrice ?? m.entryPrice;
+    if (m.takeProfitPercent && avgCost > 0) {
+      triggers.push({ price: avgCost * (1 + m.takeProfitPercent / 100), fires: "above" });
+    }
+    // Next buyback level, while there's budget left to spend on it
+    if (m.entryPrice > 0 && (m.usdcSpent ?? 0) < (m.totalUsdcBudget ?? 0)) {
+      const nextLevel = (m.lastBuybackLevel ?? 0) + 1;
+      triggers.push({ price: m.entryPrice * (1 - (nextLevel * (m.buybackPercent ?? 10)) / 100), fires: "below" });
+    }
+    return triggers;
+  },
+  describe: (m) => {
+    const spent = m.usdcSpent ?? 0;
+    const budget = m.totalUsdcBudget ?? 0;
+    const remaining = Math.max(0, budget - spent);
+    const details = [
+      ...describeStopLoss(m),
+      ...describeMilestones(m),
+      `📉 Buyback: $${m.usdcPerBuyback} every -${m.buybackPercent}%`,
+    ];
+    if (m.avgCostPrice) {
+      details.push(`⚖️ Anchor: $${m.entryPrice.toPrecision(6)} | Avg cost: $${m.avgCostPrice.toPrecision(6)}`);
+    }
+    if (m.takeProfitPercent) {
+      const basis = m.avgCostPrice ?? m.entryPrice;
+      details.push(`🎯 Take-profit: +${m.takeProfitPercent}% vs avg ($${(basis * (1 + m.takeProfitPercent / 100)).toPrecision(6)})`);
+    }
+    details.push(`💰 Budget: $${spent.toFixed(2)} / $${budget.toFixed(2)} ($${remaining.toFixed(2)} left)`);
+    return { summary: `$${spent.toFixed(0)}/$${budget.toFixed(0)} spent`, details };
+  },
+  command: {
+    name: "buyback",
+    usage: "<address> <notify%> <usdc> <buyback%> [take-profit%]",
+    description: "Monitor + auto buy on dips",
+    handler: handleBuyback,
+  },
+};
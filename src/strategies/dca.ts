@@ -0,0 +1,306 @@
+import { type Address } from "viem";
+import { type Context } from "grammy";
+import cron from "node-cron";
+import { config } from "../config/index.js";
+import { getUsdcBalanceFormatted } from "../chain/wallet.js";
+import { getTokenPrice } from "../pricing/index.js";
+import { getTokenInfo } from "../scanner/dexscreener.js";
+import {
+  getActiveMonitors,
+  getMonitor,
+  updateMonitor,
+  addMonitor,
+  addHistoryEntry,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { buyToken } from "../swap/executor.js";
+import { notifyDcaBuy, notifyBudgetExhausted } from "../telegram/bot.js";
+import { escapeHtml } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import {
+  tradingBlocked,
+  checkMilestones,
+  fillPriceFromSwap,
+  blendCostBasis,
+  describeMilestones,
+  monitorPriceCheck,
+} from "./shared.js";
+import type { Strategy } from "./types.js";
+
+// ── State ──────────────────────────────────────────────────────────
+
+/** Scheduled DCA jobs keyed by lowercase token address */
+const dcaJobs = new Map<string, { schedule: string; task: cron.ScheduledTask }>();
+
+// ── DCA monitor ────────────────────────────────────────────────────
+
+async function processDca(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  const notifyPct = monitor.notifyPercent ?? 25;
+  const basis = monitor.avgCostPrice ?? monitor.entryPrice;
+
+  // ── Custom % milestone check vs average cost (upward only) ────
+  await checkMilestones(monitor, currentPrice, notifyPct, basis, "DCA monitor milestone reached");
+}
+
+/**
+ * Keep one cron job per active DCA monitor. Jobs for removed, paused or
+ * re-scheduled monitors are stopped; new ones are scheduled in UTC.
+ */
+function syncDcaJobs(): void {
+  const wanted = new Map(
+    getActiveMonitors()
+      .filter((m) => m.type === "dca" && m.dcaSchedule)
+      .map((m) => [m.address.toLowerCase(), m.dcaSchedule!])
+  );
+
+  for (const [address, job] of dcaJobs) {
+    if (wanted.get(address) !== job.schedule) {
+      job.task.stop();
+      dcaJobs.delete(address);
+      logger.info({ token: address }, "DCA job stopped");
+    }
+  }
+
+  for (const [address, schedule] of wanted) {
+    if (dcaJobs.has(address)) continue;
+    const task = cron.schedule(
+      schedule,
+      () => {
+        runDcaSlot(address).catch((err) => logger.error({ err, token: address }, "DCA slot failed"));
+      },
+      { timezone: "UTC" }
+    );
+    dcaJobs.set(address, { schedule, task });
+    logger.info({ token: address, schedule }, "DCA job scheduled");
+  }
+}
+
+function stopDcaJobs(): void {
+  for (const job of dcaJobs.values()) job.task.stop();
+  dcaJobs.clear();
+}
+
+/**
+ * Execute one scheduled DCA buy. The slot is persisted before the swap is sent,
+ * so a restart (or a duplicate cron fire) can never buy the same slot twice.
+ * Missed slots while the bot was down are not back-filled.
+ */
+async function runDcaSlot(address: string): Promise<void> {
+  const monitor = getMonitor(address);
+  if (!monitor || !monitor.active || monitor.type !== "dca") return;
+
+  const slot = Math.floor(Date.now() / 60_000) * 60_000;
+  if ((monitor.dcaLastSlot ?? 0) >= slot) {
+    logger.info({ symbol: monitor.symbol, slot }, "DCA slot already executed — skipping");
+    return;
+  }
+
+  const perBuy = monitor.dcaUsdcPerBuy ?? 0;
+  const totalBudget = monitor.totalUsdcBudget ?? 0;
+  const usdcSpent = monitor.usdcSpent ?? 0;
+  if (perBuy <= 0 || usdcSpent >= totalBudget) return;
+
+  // Without a price the deviation check has nothing to compare the quote against
+  const currentPrice = await getTokenPrice(monitor.address as Address, monitor.pairAddress);
+  if (currentPrice === null) {
+    logger.warn({ symbol: monitor.symbol, slot }, "No price for DCA token — slot skipped");
+    return;
+  }
+  if (await tradingBlocked(monitor, "DCA buy", currentPrice)) return;
+
+  const buyAmount = Math.min(perBuy, totalBudget - usdcSpent);
+  updateMonitor(monitor.address, { dcaLastSlot: slot });
+
+  logger.info({ symbol: monitor.symbol, buyAmount, slot: new Date(slot).toISOString() }, "DCA buy triggered");
+
+  const result = await buyToken(monitor.address as Address, buyAmount.toString(), monitorPriceCheck(monitor, currentPrice));
+  // The price-deviation check has already alerted — the slot is skipped quietly
+  if (result.deferred) return;
+
+  if (!result.success) {
+    await notifyDcaBuy(monitor.symbol, currentPrice, buyAmount, 0, Math.max(0, totalBudget - usdcSpent), monitor.dcaBuyCount ?? 0, "", false);
+    logger.error({ symbol: monitor.symbol, error: result.error }, "DCA buy FAILED — slot skipped");
+    return;
+  }
+
+  const fillPrice = await fillPriceFromSwap(monitor.address, buyAmount, result, currentPrice);
+  const { tokensAcquired, avgCostPrice } = await blendCostBasis(monitor, buyAmount, BigInt(result.buyAmount ?? "0"));
+  const newSpent = usdcSpent + buyAmount;
+  const dcaBuyCount = (monitor.dcaBuyCount ?? 0) + 1;
+
+  addHistoryEntry({
+    type: "buy",
+    tokenAddress: monitor.address,
+    tokenSymbol: monitor.symbol,
+    price: fillPrice,
+    amount: result.buyAmount ?? "0",
+    usdcAmount: buyAmount.toString(),
+    txHash: result.txHash ?? "",
+    timestamp: Date.now(),
+    reason: "dca",
+  });
+
+  updateMonitor(monitor.address, {
+    usdcSpent: newSpent,
+    dcaBuyCount,
+    tokensAcquired,
+    avgCostPrice,
+  });
+
+  const remaining = Math.max(0, totalBudget - newSpent);
+  await notifyDcaBuy(monitor.symbol, fillPrice, buyAmount, avgCostPrice, remaining, dcaBuyCount, result.txHash ?? "", true);
+
+  if (newSpent >= totalBudget) {
+    await notifyBudgetExhausted(monitor.symbol, newSpent, "DCA");
+    logger.info({ symbol: monitor.symbol }, "DCA budget exhausted");
+  }
+}
+
+// ── /dca command handler ───────────────────────────────────────────
+
+async function handleDca(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 5) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/dca &lt;contract-address&gt; &lt;usdc-per-buy&gt; &lt;total-budget&gt; &lt;schedule&gt;</code>\n\n` +
+        `Schedule (UTC): <code>hourly</code>, <code>daily@HH:MM</code> or a 5-field cron expression.\n\n` +
+        `<b>Examples:</b>\n` +
+        `<code>/dca 0x1234...abcd 25 500 daily@09:00</code> — $25 every day at 09:00 UTC until $500 is spent\n` +
+        `<code>/dca 0x1234...abcd 10 200 0 */6 * * *</code> — $10 every 6 hours`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const usdcPerBuy = parseFloat(parts[2]);
+  const totalBudget = parseFloat(parts[3]);
+  const schedule = parseDcaSchedule(parts.slice(4).join(" "));
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
+    return;
+  }
+  if (isNaN(usdcPerBuy) || usdcPerBuy <= 0) {
+    await ctx.reply("❌ Invalid USDC amount per buy. Must be a positive number.");
+    return;
+  }
+  if (isNaN(totalBudget) || totalBudget < usdcPerBuy) {
+    await ctx.reply("❌ Invalid budget. Must be at least the amount per buy.");
+    return;
+  }
+  if (!schedule) {
+    await ctx.reply("❌ Invalid schedule. Use hourly, daily@HH:MM or a 5-field cron expression.");
+    return;
+  }
+
+  await ctx.reply("⏳ Looking up token...");
+  const info = await getTokenInfo(contractAddress);
+  if (!info) {
+    await ctx.reply(
+      `❌ Could not find token <code>${escapeHtml(contractAddress)}</code> on Base.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+  if (info.priceUsd <= 0) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(info.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const usdcBalNum = parseFloat(await getUsdcBalanceFormatted());
+  const balanceWarning = usdcBalNum < totalBudget
+    ? `\n⚠️ <b>Warning:</b> USDC balance ($${usdcBalNum.toFixed(2)}) is less than the budget ($${totalBudget})`
+    : "";
+
+  const monitor: MonitoredToken = {
+    type: "dca",
+    address: info.address,
+    symbol: info.symbol,
+    name: info.name,
+    stopLossPrice: 0, // No stop-loss for DCA strategy
+    entryPrice: info.priceUsd,
+    lastNotifiedMilestone: 0,
+    active: true,
+    dexScreenerUrl: info.dexScreenerUrl,
+    addedAt: Date.now(),
+    dcaSchedule: schedule,
+    dcaUsdcPerBuy: usdcPerBuy,
+    totalUsdcBudget: totalBudget,
+    usdcSpent: 0,
+    dcaBuyCount: 0,
+  };
+
+  addMonitor(monitor);
+
+  const buys = Math.ceil(totalBudget / usdcPerBuy);
+
+  await ctx.reply(
+    `✅ <b>DCA monitor: ${escapeHtml(info.symbol)}</b>\n\n` +
+      `📍 Address: <code>${info.address}</code>\n` +
+      `💵 Current price: $${info.priceUsd.toPrecision(6)}\n` +
+      `🗓️ Schedule: <code>${schedule}</code> (UTC)\n` +
+      `💰 $${usdcPerBuy} USDC per buy, $${totalBudget} budget (~${buys} buy${buys !== 1 ? "s" : ""})\n` +
+      `📊 Milestones: every +25% from average cost` +
+      balanceWarning +
+      `\n\n${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
+    { parse_mode: "HTML" }
+  );
+}
+
+/**
+ * Turn a DCA schedule argument into a cron expression.
+ * Accepts "hourly", "daily@HH:MM" or a raw 5-field cron expression.
+ */
+function parseDcaSchedule(arg: string): string | null {
+  const trimmed = arg.trim().toLowerCase();
+  if (trimmed === "hourly") return "0 * * * *";
+  const daily = trimmed.match(/^daily(?:@(\d{1,2}):(\d{2}))?$/);
+  if (daily) {
+    const hour = parseInt(daily[1] ?? "0", 10);
+    const minute = parseInt(daily[2] ?? "0", 10);
+    if (hour > 23 || minute > 59) return null;
+    return `${minute} ${hour} * * *`;
+  }
+  if (trimmed.split(/\s+/).length !== 5 || !cron.validate(trimmed)) return null;
+  return trimmed;
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const dcaStrategy: Strategy = {
+  type: "dca",
+  icon: "🗓️",
+  modifiers: [],
+  validate: (m) => {
+    if (!m.dcaSchedule || !cron.validate(m.dcaSchedule)) return "DCA schedule is not a valid cron expression";
+    if ((m.dcaUsdcPerBuy ?? 0) <= 0) return "DCA USDC per buy must be positive";
+    return null;
+  },
+  evaluate: processDca,
+  describe: (m) => {
+    const spent = m.usdcSpent ?? 0;
+    const budget = m.totalUsdcBudget ?? 0;
+    const remaining = Math.max(0, budget - spent);
+    const last = m.dcaLastSlot ? ` | Last: ${new Date(m.dcaLastSlot).toISOString().slice(0, 16).replace("T", " ")} UTC` : "";
+    const details = [
+      ...describeMilestones(m),
+      `🗓️ DCA: $${m.dcaUsdcPerBuy} on ${m.dcaSchedule} (UTC)`,
+      `💰 Budget: $${spent.toFixed(2)} / $${budget.toFixed(2)} ($${remaining.toFixed(2)} left) | Buys: ${m.dcaBuyCount ?? 0}${last}`,
+    ];
+    if (m.avgCostPrice) {
+      details.push(`⚖️ Avg cost: $${m.avgCostPrice.toPrecision(6)}`);
+    }
+    return { summary: `$${spent.toFixed(0)}/$${budget.toFixed(0)} spent`, details };
+  },
+  command: {
+    name: "dca",
+    usage: "<address> <usdc> <budget> <schedule>",
+    description: "Scheduled buys until the budget is spent",
+    handler: handleDca,
+  },
+  sync: syncDcaJobs,
+  stop: stopDcaJobs,
+};
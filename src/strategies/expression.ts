@@ -0,0 +1,141 @@
+// Condition language for rule monitors, e.g.
+//   price < 0.004 AND liquidityUsd < 50000 OR heldHours > 72
+// AND binds tighter than OR; parentheses group. Keywords are case-insensitive.
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** Values a rule condition can compare against — undefined when the quote didn't include them */
+export interface RuleVariables {
+  /** Current price (USD) */
+  price: number;
+  /** % change from the monitor's entry price */
+  changePct: number;
+  /** Pool liquidity (USD) */
+  liquidityUsd?: number;
+  /** 24h trading volume (USD) */
+  volume24h?: number;
+  /** Hours since the monitor was added */
+  heldHours: number;
+}
+
+export type RuleVariable = keyof RuleVariables;
+
+type Comparator = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+export type RuleExpr =
+  | { kind: "and" | "or"; left: RuleExpr; right: RuleExpr }
+  | { kind: "compare"; variable: RuleVariable; comparator: Comparator; value: number };
+
+// ── Constants ──────────────────────────────────────────────────────
+
+export const RULE_VARIABLES: RuleVariable[] = ["price", "changePct", "liquidityUsd", "volume24h", "heldHours"];
+
+const COMPARATORS: Comparator[] = ["<=", ">=", "!=", "<", ">", "="];
+
+const TOKEN_RE = /\s*(\(|\)|<=|>=|!=|==|<|>|=|[A-Za-z_]\w*|-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/iy;
+
+// ── Parser ─────────────────────────────────────────────────────────
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_RE.lastIndex = 0;
+  while (TOKEN_RE.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN_RE.lastIndex))) break;
+    const start = TOKEN_RE.lastIndex;
+    const match = TOKEN_RE.exec(source);
+    if (!match) throw new Error(`Unexpected character "${source.slice(start).trim()[0]}"`);
+    tokens.push(match[1] === "==" ? "=" : match[1]);
+  }
+  return tokens;
+}
+
+/**
+ * Parse a rule condition. Throws an Error describing the first problem
+ * (unknown variable, missing number, unbalanced parenthesis, ...).
+ */
+export function parseRuleExpression(source: string): RuleExpr {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peekKeyword = (keyword: string): boolean => tokens[pos]?.toUpperCase() === keyword;
+
+  function parseOr(): RuleExpr {
+    let left = parseAnd();
+    while (peekKeyword("OR")) {
+      pos++;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  function parseAnd(): RuleExpr {
+    let left = parsePrimary();
+    while (peekKeyword("AND")) {
+      pos++;
+      left = { kind: "and", left, right: parsePrimary() };
+    }
+    return left;
+  }
+
+  function parsePrimary(): RuleExpr {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error("Condition ends too early");
+
+    if (token === "(") {
+      const inner = parseOr();
+      if (tokens[pos++] !== ")") throw new Error('Missing ")"');
+      return inner;
+    }
+
+    const variable = RULE_VARIABLES.find((v) => v.toLowerCase() === token.toLowerCase());
+    if (!variable) {
+      throw new Error(`Unknown variable "${token}" — use ${RULE_VARIABLES.join(", ")}`);
+    }
+
+    const comparator = tokens[pos++] as Comparator | undefined;
+    if (!comparator || !COMPARATORS.includes(comparator)) {
+      throw new Error(`Expected a comparison (<, <=, >, >=, =, !=) after "${variable}"`);
+    }
+
+    const value = Number(tokens[pos++]);
+    if (tokens[pos - 1] === undefined || isNaN(value)) {
+      throw new Error(`Expected a number after "${variable} ${comparator}"`);
+    }
+
+    return { kind: "compare", variable, comparator, value };
+  }
+
+  const expr = parseOr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return expr;
+}
+
+// ── Evaluation ─────────────────────────────────────────────────────
+
+/** Evaluate a parsed condition. A comparison against a value the quote didn't include is false. */
+export function evaluateRuleExpression(expr: RuleExpr, vars: RuleVariables): boolean {
+  switch (expr.kind) {
+    case "and":
+      return evaluateRuleExpression(expr.left, vars) && evaluateRuleExpression(expr.right, vars);
+    case "or":
+      return evaluateRuleExpression(expr.left, vars) || evaluateRuleExpression(expr.right, vars);
+    case "compare": {
+      const actual = vars[expr.variable];
+      if (actual === undefined) return false;
+      switch (expr.comparator) {
+        case "<": return actual < expr.value;
+        case "<=": return actual <= expr.value;
+        case ">": return actual > expr.value;
+        case ">=": return actual >= expr.value;
+        case "=": return actual === expr.value;
+        case "!=": return actual !== expr.value;
+      }
+    }
+  }
+}
+
+/** Every price the condition compares against — used as trigger levels for adaptive polling */
+export function rulePriceLevels(expr: RuleExpr): number[] {
+  if (expr.kind !== "compare") return [...rulePriceLevels(expr.left), ...rulePriceLevels(expr.right)];
+  return expr.variable === "price" ? [expr.value] : [];
+}
@@ -0,0 +1,305 @@
+import { formatUnits, type Address } from "viem";
+import { type Context } from "grammy";
+import { config, USDC_DECIMALS } from "../config/index.js";
+import { getUsdcBalanceFormatted } from "../chain/wallet.js";
+import { getTokenInfo } from "../scanner/dexscreener.js";
+import {
+  updateMonitor,
+  addMonitor,
+  addHistoryEntry,
+  sellPartialByAddress,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { buyToken, type SwapResult } from "../swap/executor.js";
+import { notifyGridTrade } from "../telegram/bot.js";
+import { escapeHtml, formatPrice } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import { tradingBlocked, fillPriceFromSwap, monitorPriceCheck } from "./shared.js";
+import type { Strategy } from "./types.js";
+
+// ── Grid monitor ───────────────────────────────────────────────────
+
+/**
+ * Grid trading between gridLower and gridUpper.
+ * A downward cross of an empty level buys a fixed-USDC lot there; an upward
+ * cross of the next level up sells that lot. The top level never buys since
+ * it has no level above to sell at. Level state is persisted after every
+ * swap, so a restart never re-buys a filled level or re-sells an empty one.
+ */
+async function processGrid(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  const levels = monitor.gridState ?? [];
+  const lastPrice = monitor.lastGridPrice;
+  if (levels.length < 2 || (monitor.gridUsdcPerLevel ?? 0) <= 0) return;
+
+  // First tick only records where the price is — crossings need a previous price
+  if (lastPrice === undefined) {
+    updateMonitor(monitor.address, { lastGridPrice: currentPrice });
+    return;
+  }
+
+  if (currentPrice < lastPrice) {
+    // Walk down from the highest level crossed
+    for (let i = levels.length - 2; i >= 0; i--) {
+      const level = levels[i];
+      if (level.filled || level.price >= lastPrice || level.price < currentPrice) continue;
+      // Keep lastGridPrice so the crossing is re-evaluated after /resume, or after a deferred buy
+      if (await tradingBlocked(monitor, `grid buy L${i + 1}`, currentPrice)) return;
+      if (await buyGridLevel(monitor, i, currentPrice) === "deferred") return;
+    }
+  } else if (currentPrice > lastPrice) {
+    for (let i = 0; i < levels.length - 1; i++) {
+      const target = levels[i + 1].price;
+      if (!levels[i].filled || target <= lastPrice || target > currentPrice) continue;
+      if (await tradingBlocked(monitor, `grid sell L${i + 1}`, currentPrice)) return;
+      if (await sellGridLevel(monitor, i, currentPrice) === "deferred") return;
+    }
+  }
+
+  updateMonitor(monitor.address, { lastGridPrice: currentPrice });
+}
+
+/**
+ * Buy one level's lot. "deferred" if the price-deviation check held it back —
+ * the crossing is retried; a failed buy leaves the level empty until the next one.
+ */
+async function buyGridLevel(monitor: MonitoredToken, index: number, currentPrice: number): Promise<"deferred" | void> {
+  const levels = monitor.gridState ?? [];
+  const level = levels[index];
+  const usdcAmount = monitor.gridUsdcPerLevel ?? 0;
+
+  logger.info(
+    { symbol: monitor.symbol, level: index + 1, levelPrice: level.price, currentPrice, usdcAmount },
+    "GRID BUY triggered"
+  );
+
+  const result = await buyToken(monitor.address as Address, usdcAmount.toString(), monitorPriceCheck(monitor, currentPrice));
+  // Held back by the price-deviation check, which has already alerted
+  if (result.deferred) return "deferred";
+
+  if (!result.success) {
+    await notifyGridTrade(monitor.symbol, "buy", index + 1, levels.length, level.price, currentPrice, usdcAmount, "", false);
+    logger.error({ symbol: monitor.symbol, level: index + 1, error: result.error }, "Grid buy FAILED — level left empty");
+    return;
+  }
+
+  const fillPrice = await fillPriceFromSwap(monitor.address, usdcAmount, result, currentPrice);
+  const gridState = levels.map((l, i) =>
+    i === index
+      ? { ...l, filled: true, tokenAmount: result.buyAmount ?? "0", buyTxHash: result.txHash, filledAt: Date.now() }
+      : l
+  );
+  updateMonitor(monitor.address, { gridState });
+
+  addHistoryEntry({
+    type: "buy",
+    tokenAddress: monitor.address,
+    tokenSymbol: monitor.symbol,
+    price: fillPrice,
+    amount: result.buyAmount ?? "0",
+    usdcAmount: usdcAmount.toString(),
+    txHash: result.txHash ?? "",
+    timestamp: Date.now(),
+    reason: `grid L${index + 1}`,
+  });
+
+  await notifyGridTrade(monitor.symbol, "buy", index + 1, levels.length, level.price, fillPrice, usdcAmount, result.txHash ?? "", true);
+}
+
+/**
+ * Sell one level's lot. "deferred" if the price-deviation check held it back —
+ * the crossing is retried; after a failed sell the lot is kept for the next one.
+ */
+async function sellGridLevel(monitor: MonitoredToken, index: number, currentPrice: number): Promise<"deferred" | void> {
+  const levels = monitor.gridState ?? [];
+  const level = levels[index];
+  const target = levels[index + 1].price;
+  const lot = BigInt(level.tokenAmount ?? "0");
+  const profitPercent = level.price > 0 ? ((currentPrice - level.price) / level.price) * 100 : undefined;
+
+  logger.info(
+    { symbol: monitor.symbol, level: index + 1, target, currentPrice, lot: lot.toString() },
+    "GRID SELL triggered"
+  );
+
+  const result: SwapResult = lot > 0n
+    ? await sellPartialByAddress(
+        monitor.address,
+        monitor.symbol,
+        lot,
+        `grid L${index + 1}`,
+        profitPercent,
+        monitorPriceCheck(monitor, currentPrice)
+      )
+    : { success: false, error: "Sell amount is zero" };
+  // Deviation alert already sent — the lot is kept and the sell retried
+  if (result.deferred) return "deferred";
+  const lotGone = result.error?.includes("Zero token balance") || result.error?.includes("Sell amount is zero");
+
+  if (!result.success && !lotGone) {
+    await notifyGridTrade(monitor.symbol, "sell", index + 1, levels.length, target, currentPrice, 0, "", false);
+    logger.error({ symbol: monitor.symbol, level: index + 1, error: result.error }, "Grid sell FAILED — lot kept");
+    return;
+  }
+
+  const gridState = levels.map((l, i) => (i === index ? { price: l.price, filled: false } : l));
+  updateMonitor(monitor.address, { gridState });
+
+  if (lotGone) {
+    logger.warn({ symbol: monitor.symbol, level: index + 1 }, "Grid lot no longer in wallet — level cleared");
+    return;
+  }
+
+  const usdcReceived = result.buyAmount ? parseFloat(formatUnits(BigInt(result.buyAmount), USDC_DECIMALS)) : 0;
+  await notifyGridTrade(
+    monitor.symbol,
+    "sell",
+    index + 1,
+    levels.length,
+    target,
+    currentPrice,
+    usdcReceived,
+    result.txHash ?? "",
+    true,
+    usdcReceived > 0 ? usdcReceived - (monitor.gridUsdcPerLevel ?? 0) : undefined
+  );
+}
+
+// ── /grid command handler ──────────────────────────────────────────
+
+async function handleGrid(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 6) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/grid &lt;contract-address&gt; &lt;lower&gt; &lt;upper&gt; &lt;levels&gt; &lt;usdc-per-level&gt;</code>\n\n` +
+        `<b>Example:</b>\n<code>/grid 0x1234...abcd 0.8 1.2 5 50</code>\n` +
+        `Grid lines at $0.80, $0.90, $1.00, $1.10, $1.20. Buys $50 USDC when price falls through a line ` +
+        `and sells that lot when price rises to the line above.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const lower = parseFloat(parts[2]);
+  const upper = parseFloat(parts[3]);
+  const levelCount = parseInt(parts[4], 10);
+  const usdcPerLevel = parseFloat(parts[5]);
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
+    return;
+  }
+  if (isNaN(lower) || isNaN(upper) || lower <= 0 || upper <= lower) {
+    await ctx.reply("❌ Invalid range. Lower and upper must be positive prices with lower &lt; upper.", { parse_mode: "HTML" });
+    return;
+  }
+  if (isNaN(levelCount) || levelCount < 2 || levelCount > 50) {
+    await ctx.reply("❌ Invalid level count. Must be between 2 and 50.");
+    return;
+  }
+  if (isNaN(usdcPerLevel) || usdcPerLevel <= 0) {
+    await ctx.reply("❌ Invalid USDC amount per level. Must be a positive number.");
+    return;
+  }
+
+  await ctx.reply("⏳ Looking up token...");
+  const info = await getTokenInfo(contractAddress);
+  if (!info) {
+    await ctx.reply(
+      `❌ Could not find token <code>${escapeHtml(contractAddress)}</code> on Base.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+  if (info.priceUsd <= 0) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(info.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const step = (upper - lower) / (levelCount - 1);
+  const gridState = Array.from({ length: levelCount }, (_, i) => ({
+    price: i === levelCount - 1 ? upper : lower + step * i,
+    filled: false,
+  }));
+
+  // Every level but the top can hold a lot at the same time
+  const maxExposure = usdcPerLevel * (levelCount - 1);
+  const usdcBalNum = parseFloat(await getUsdcBalanceFormatted());
+  const balanceWarning = usdcBalNum < maxExposure
+    ? `\n⚠️ <b>Warning:</b> USDC balance ($${usdcBalNum.toFixed(2)}) is less than the full grid ($${maxExposure.toFixed(2)})`
+    : "";
+  const rangeWarning = info.priceUsd < lower || info.priceUsd > upper
+    ? `\n⚠️ Current price is outside the grid range`
+    : "";
+
+  const monitor: MonitoredToken = {
+    type: "grid",
+    address: info.address,
+    symbol: info.symbol,
+    name: info.name,
+    stopLossPrice: 0, // No stop-loss for grid strategy
+    entryPrice: info.priceUsd,
+    lastNotifiedMilestone: 0,
+    active: true,
+    dexScreenerUrl: info.dexScreenerUrl,
+    addedAt: Date.now(),
+    gridLower: lower,
+    gridUpper: upper,
+    gridUsdcPerLevel: usdcPerLevel,
+    gridState,
+    lastGridPrice: info.priceUsd,
+  };
+
+  addMonitor(monitor);
+
+  await ctx.reply(
+    `✅ <b>Grid monitor: ${escapeHtml(info.symbol)}</b>\n\n` +
+      `📍 Address: <code>${info.address}</code>\n` +
+      `💵 Current price: $${info.priceUsd.toPrecision(6)}\n` +
+      `🧮 Range: $${formatPrice(lower)} – $${formatPrice(upper)} (${levelCount} levels, step $${formatPrice(step)})\n` +
+      `💰 $${usdcPerLevel} USDC per level, up to $${maxExposure.toFixed(2)} deployed` +
+      rangeWarning +
+      balanceWarning +
+      `\n\n${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const gridStrategy: Strategy = {
+  type: "grid",
+  icon: "🧮",
+  modifiers: [],
+  validate: (m) => {
+    if ((m.gridState ?? []).length < 2) return "grid needs at least 2 levels";
+    if ((m.gridUsdcPerLevel ?? 0) <= 0) return "grid USDC per level must be positive";
+    return null;
+  },
+  evaluate: processGrid,
+  // Empty levels buy on the way down; a filled level sells at the next level up.
+  // Both only fire on a crossing, so sitting past one isn't pending.
+  triggerPrices: (m) => {
+    const levels = m.gridState ?? [];
+    return levels.slice(0, -1).map((l, i) => ({ price: l.filled ? levels[i + 1].price : l.price }));
+  },
+  describe: (m) => {
+    const levels = m.gridState ?? [];
+    const held = levels.filter((l) => l.filled).length;
+    return {
+      summary: `$${formatPrice(m.gridLower ?? 0)}–$${formatPrice(m.gridUpper ?? 0)}, ${held} lot(s) held`,
+      details: [
+        `🧮 Grid: $${formatPrice(m.gridLower ?? 0)}–$${formatPrice(m.gridUpper ?? 0)}, ${levels.length} levels, $${m.gridUsdcPerLevel} per level`,
+        `📶 ${levels.map((l) => `${l.filled ? "●" : "○"} $${formatPrice(l.price)}`).join(" | ")}`,
+      ],
+    };
+  },
+  command: {
+    name: "grid",
+    usage: "<address> <lower> <upper> <levels> <usdc>",
+    description: "Buy dips and sell bounces inside a range",
+    handler: handleGrid,
+  },
+};
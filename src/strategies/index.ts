@@ -0,0 +1,39 @@
+import { registerStrategy } from "./registry.js";
+import type { Strategy } from "./types.js";
+import { standardStrategy } from "./standard.js";
+import { simpleStrategy } from "./simple.js";
+import { buybackStrategy } from "./buyback.js";
+import { trailingStrategy } from "./trailing.js";
+import { limitBuyStrategy } from "./limitbuy.js";
+import { dcaStrategy } from "./dca.js";
+import { gridStrategy } from "./grid.js";
+import { ocoStrategy } from "./oco.js";
+import { ruleStrategy } from "./rule.js";
+
+// Built-in strategies by monitor type. To add one: implement `Strategy` (see
+// types.ts) in its own file and add it here — MonitorType is derived from these
+// keys, and the monitor loop, /status, /monitors, the API and command
+// registration all pick it up from the registry.
+const BUILT_IN_STRATEGIES = {
+  standard: standardStrategy,
+  simple: simpleStrategy,
+  buyback: buybackStrategy,
+  trailing: trailingStrategy,
+  limitbuy: limitBuyStrategy,
+  dca: dcaStrategy,
+  grid: gridStrategy,
+  oco: ocoStrategy,
+  rule: ruleStrategy,
+} satisfies Record<string, Strategy>;
+
+/** Every monitor type with a registered strategy */
+export type MonitorType = keyof typeof BUILT_IN_STRATEGIES;
+
+for (const [type, strategy] of Object.entries(BUILT_IN_STRATEGIES)) {
+  if (strategy.type !== type) throw new Error(`Strategy "${strategy.type}" is listed as "${type}"`);
+  registerStrategy(strategy);
+}
+
+export { getStrategies, getStrategy, strategyFor, strategySupports } from "./registry.js";
+export { clearPausedTradeAlerts, tradingBlocked, monitorPriceCheck } from "./shared.js";
+export type { Strategy, StrategyCommand, StrategyDescription, MonitorModifier, TriggerPrice } from "./types.js";
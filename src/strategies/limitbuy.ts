@@ -0,0 +1,225 @@
+import { type Address } from "viem";
+import { type Context } from "grammy";
+import { config } from "../config/index.js";
+import { getTokenBalance, getUsdcBalanceFormatted } from "../chain/wallet.js";
+import { getTokenInfo } from "../scanner/dexscreener.js";
+import {
+  updateMonitor,
+  addMonitor,
+  addHistoryEntry,
+  setMonitorActive,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { buyToken } from "../swap/executor.js";
+import { notifyLimitBuy } from "../telegram/bot.js";
+import { escapeHtml, formatPrice, parseStopLossArg, resolveStopLoss } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import { tradingBlocked, fillPriceFromSwap, monitorPriceCheck } from "./shared.js";
+import type { Strategy } from "./types.js";
+
+// ── Limit-buy monitor ──────────────────────────────────────────────
+
+async function processLimitBuy(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  const triggerPrice = monitor.limitBuyPrice ?? 0;
+  const usdcAmount = monitor.limitBuyUsdc ?? 0;
+  if (triggerPrice <= 0 || usdcAmount <= 0 || currentPrice > triggerPrice) return;
+
+  if (await tradingBlocked(monitor, "limit buy", currentPrice)) return;
+
+  logger.info(
+    { symbol: monitor.symbol, currentPrice, triggerPrice, usdcAmount },
+    "LIMIT BUY triggered — buying token"
+  );
+
+  const result = await buyToken(monitor.address as Address, usdcAmount.toString(), monitorPriceCheck(monitor, currentPrice));
+  // Held back by the price-deviation check, which has already alerted — stays armed for the next tick
+  if (result.deferred) return;
+
+  if (!result.success) {
+    // Deactivate rather than retry every tick — /resume <address> re-arms it
+    setMonitorActive(monitor.address, false);
+    await notifyLimitBuy(monitor.symbol, currentPrice, triggerPrice, usdcAmount, 0, 0, "", false);
+    logger.error({ symbol: monitor.symbol, error: result.error }, "Limit buy FAILED — monitor paused");
+    return;
+  }
+
+  const fillPrice = await fillPriceFromSwap(monitor.address, usdcAmount, result, currentPrice);
+  const stopPercent = monitor.limitBuyStopPercent ?? 0;
+  const stopLossPrice = stopPercent > 0 ? fillPrice * (1 - stopPercent / 100) : 0;
+
+  addHistoryEntry({
+    type: "buy",
+    tokenAddress: monitor.address,
+    tokenSymbol: monitor.symbol,
+    price: fillPrice,
+    amount: result.buyAmount ?? "0",
+    usdcAmount: usdcAmount.toString(),
+    txHash: result.txHash ?? "",
+    timestamp: Date.now(),
+    reason: "limit-buy",
+  });
+
+  // A ladder set while the order was pending scales out of the holding the fill leaves;
+  // if the balance can't be read now, the first rung to fire reads it
+  const ladderBase = monitor.takeProfits ? await getTokenBalance(monitor.address as Address).catch(() => 0n) : 0n;
+
+  // Convert into a standard stop-loss monitor anchored at the fill
+  updateMonitor(monitor.address, {
+    type: "standard",
+    entryPrice: fillPrice,
+    stopLossPrice,
+    stopLossPercent: stopPercent > 0 ? stopPercent : undefined,
+    lastNotifiedMilestone: 0,
+    ladderBaseAmount: ladderBase > 0n ? ladderBase.toString() : undefined,
+    limitBuyPrice: undefined,
+    limitBuyUsdc: undefined,
+    limitBuyStopPercent: undefined,
+  });
+
+  await notifyLimitBuy(
+    monitor.symbol,
+    currentPrice,
+    triggerPrice,
+    usdcAmount,
+    fillPrice,
+    stopLossPrice,
+    result.txHash ?? "",
+    true
+  );
+  logger.info({ symbol: monitor.symbol, fillPrice, stopLossPrice }, "Limit buy filled — now a standard monitor");
+}
+
+// ── /limitbuy command handler ──────────────────────────────────────
+
+async function handleLimitBuy(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 5) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/limitbuy &lt;contract-address&gt; &lt;trigger-price|-percent%&gt; &lt;usdc-amount&gt; &lt;stop%&gt;</code>\n\n` +
+        `<b>Examples:</b>\n` +
+        `<code>/limitbuy 0x1234...abcd 0.004 100 15</code>\n` +
+        `Buys $100 USDC worth once price falls to $0.004, then sets a stop-loss 15% below the fill price.\n` +
+        `<code>/limitbuy 0x1234...abcd -10% 100 15</code> — trigger 10% below the current price`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const triggerInput = parseStopLossArg(parts[2]);
+  const usdcAmount = parseFloat(parts[3]);
+  const stopPercent = Math.abs(parseFloat(parts[4].replace("%", "")));
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
+    return;
+  }
+  if (!triggerInput) {
+    await ctx.reply("❌ Invalid trigger. Must be a positive price (0.004) or a percent below current price (-10%).");
+    return;
+  }
+  if (isNaN(usdcAmount) || usdcAmount <= 0) {
+    await ctx.reply("❌ Invalid USDC amount. Must be a positive number.");
+    return;
+  }
+  if (isNaN(stopPercent) || stopPercent <= 0 || stopPercent >= 100) {
+    await ctx.reply("❌ Invalid stop percent. Must be between 0 and 100.");
+    return;
+  }
+
+  await ctx.reply("⏳ Looking up token...");
+  const info = await getTokenInfo(contractAddress);
+  if (!info) {
+    await ctx.reply(
+      `❌ Could not find token <code>${escapeHtml(contractAddress)}</code> on Base.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+  if (info.priceUsd <= 0) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(info.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const { stopLossPrice: triggerPrice } = resolveStopLoss(triggerInput, info.priceUsd);
+  if (triggerPrice >= info.priceUsd) {
+    await ctx.reply(
+      `⚠️ Trigger ($${formatPrice(triggerPrice)}) is at or above current price ($${info.priceUsd.toPrecision(6)}).\n` +
+        `This would buy immediately. Please set a trigger below current price.`
+    );
+    return;
+  }
+
+  const usdcBalNum = parseFloat(await getUsdcBalanceFormatted());
+  const balanceWarning = usdcBalNum < usdcAmount
+    ? `\n⚠️ <b>Warning:</b> USDC balance ($${usdcBalNum.toFixed(2)}) is less than the buy amount ($${usdcAmount})`
+    : "";
+
+  const monitor: MonitoredToken = {
+    type: "limitbuy",
+    address: info.address,
+    symbol: info.symbol,
+    name: info.name,
+    stopLossPrice: 0, // Set from the fill price once the buy executes
+    entryPrice: info.priceUsd,
+    lastNotifiedMilestone: 0,
+    active: true,
+    dexScreenerUrl: info.dexScreenerUrl,
+    addedAt: Date.now(),
+    limitBuyPrice: triggerPrice,
+    limitBuyUsdc: usdcAmount,
+    limitBuyStopPercent: stopPercent,
+  };
+
+  addMonitor(monitor);
+
+  const belowPct = ((info.priceUsd - triggerPrice) / info.priceUsd * 100).toFixed(1);
+
+  await ctx.reply(
+    `✅ <b>Limit buy: ${escapeHtml(info.symbol)}</b>\n\n` +
+      `📍 Address: <code>${info.address}</code>\n` +
+      `💵 Current price: $${info.priceUsd.toPrecision(6)}\n` +
+      `🎯 Trigger: $${formatPrice(triggerPrice)} (${belowPct}% below current)\n` +
+      `💰 Amount: $${usdcAmount} USDC\n` +
+      `🛑 After fill: stop-loss ${stopPercent}% below the fill price\n` +
+      `⏱️ Checking every ${config.monitorIntervalSec}s` +
+      balanceWarning +
+      `\n\n${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const limitBuyStrategy: Strategy = {
+  type: "limitbuy",
+  icon: "🎯",
+  // The ladder takes effect once the fill turns this into a standard monitor,
+  // sized from the balance after the fill
+  modifiers: ["ladder"],
+  skipLiquidityExit: true,
+  validate: (m) => {
+    if ((m.limitBuyPrice ?? 0) <= 0) return "limit-buy trigger price must be positive";
+    if ((m.limitBuyUsdc ?? 0) <= 0) return "limit-buy USDC amount must be positive";
+    return null;
+  },
+  evaluate: processLimitBuy,
+  triggerPrices: (m) => [{ price: m.limitBuyPrice ?? 0, fires: "below" }],
+  describe: (m) => {
+    const trigger = m.limitBuyPrice ?? 0;
+    const belowPct = m.entryPrice > 0 ? ((m.entryPrice - trigger) / m.entryPrice * 100).toFixed(1) : "?";
+    const stopInfo = m.limitBuyStopPercent ? `, then SL -${m.limitBuyStopPercent}% from fill` : "";
+    return {
+      summary: `$${m.limitBuyUsdc} at ≤ $${formatPrice(trigger)}`,
+      details: [`🎯 Buy $${m.limitBuyUsdc} USDC at ≤ $${formatPrice(trigger)} (${belowPct}% below)${stopInfo}`],
+    };
+  },
+  command: {
+    name: "limitbuy",
+    usage: "<address> <trigger> <usdc> <stop%>",
+    description: "Buy at a target price, then stop-loss",
+    handler: handleLimitBuy,
+  },
+};
@@ -0,0 +1,107 @@
+import {
+  removeMonitor,
+  forceSellByAddress,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { notifyOcoExit } from "../telegram/bot.js";
+import { formatPrice } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import {
+  tradingBlocked,
+  stopLossTriggered,
+  checkDrawdown,
+  monitorPriceCheck,
+} from "./shared.js";
+import type { Strategy } from "./types.js";
+
+// ── OCO bracket monitor ────────────────────────────────────────────
+
+/**
+ * One-cancels-other: a take-profit above and a stop-loss below. Whichever side
+ * triggers first sells the whole wallet balance and removes the monitor, which
+ * cancels the other side. Take-profit wins if both are somehow hit on one tick.
+ */
+async function processOco(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  const takeProfitPrice = monitor.takeProfitPrice ?? 0;
+  const takeProfitHit = takeProfitPrice > 0 && currentPrice >= takeProfitPrice;
+  const stopHit = !takeProfitHit && monitor.stopLossPrice > 0 && (await stopLossTriggered(monitor, currentPrice));
+
+  if (!takeProfitHit && !stopHit) {
+    await checkDrawdown(monitor, currentPrice);
+    return;
+  }
+
+  const side = takeProfitHit ? "take-profit" : "stop-loss";
+  if (await tradingBlocked(monitor, `OCO ${side} sell`, currentPrice)) return;
+
+  const triggerPrice = takeProfitHit ? takeProfitPrice : monitor.stopLossPrice;
+  logger.info(
+    { symbol: monitor.symbol, side, currentPrice, triggerPrice },
+    "OCO TRIGGERED — selling all holdings"
+  );
+
+  const priceCheck = monitorPriceCheck(monitor, currentPrice, side === "stop-loss");
+  const result = await forceSellByAddress(monitor.address, monitor.symbol, side, priceCheck);
+  // Held back by the price-deviation check, which has already alerted — retry next tick
+  if (result.deferred) return;
+  const isZeroBalance = result.error?.includes("Zero token balance") ?? false;
+  const changePercent = monitor.entryPrice > 0
+    ? ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100
+    : 0;
+
+  await notifyOcoExit(
+    monitor.symbol,
+    side,
+    currentPrice,
+    triggerPrice,
+    changePercent,
+    result.txHash ?? "",
+    result.success,
+    isZeroBalance
+  );
+
+  if (result.success || isZeroBalance) {
+    removeMonitor(monitor.address);
+    logger.info({ symbol: monitor.symbol, side }, "OCO monitor removed — other side cancelled");
+  } else {
+    logger.error(
+      { symbol: monitor.symbol, side, error: result.error },
+      "OCO sell FAILED — will retry next tick"
+    );
+  }
+}
+
+/** "+12.3% away" from the current price (or from entry when no price is known) */
+function distance(target: number, m: MonitoredToken, currentPrice?: number): string {
+  const from = currentPrice ?? m.entryPrice;
+  if (from <= 0) return "";
+  const pct = ((target - from) / from) * 100;
+  return ` (${pct >= 0 ? "+" : ""}${pct.toFixed(1)}% ${currentPrice ? "away" : "from entry"})`;
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const ocoStrategy: Strategy = {
+  type: "oco",
+  icon: "🔀",
+  modifiers: ["rebase", "drawdown"],
+  validate: (m) => {
+    const takeProfitPrice = m.takeProfitPrice ?? 0;
+    if (takeProfitPrice <= 0) return "take-profit price must be positive";
+    if (m.stopLossPrice < 0 || m.stopLossPrice >= takeProfitPrice) return "stop-loss must be below the take-profit";
+    return null;
+  },
+  evaluate: processOco,
+  triggerPrices: (m) => [
+    { price: m.takeProfitPrice ?? 0, fires: "above" },
+    { price: m.stopLossPrice, fires: "below" },
+  ],
+  describe: (m, currentPrice) => ({
+    summary: `TP: $${formatPrice(m.takeProfitPrice ?? 0)} / SL: $${formatPrice(m.stopLossPrice)}`,
+    details: [
+      `🎯 TP: $${formatPrice(m.takeProfitPrice ?? 0)}${distance(m.takeProfitPrice ?? 0, m, currentPrice)}`,
+      `🛑 SL: $${formatPrice(m.stopLossPrice)}${distance(m.stopLossPrice, m, currentPrice)}`,
+    ],
+  }),
+  // Created by sending "<address> <stop-loss> <take-profit>" — see the text handler in telegram/bot.ts
+};
@@ -0,0 +1,36 @@
+import type { MonitoredToken } from "../positions/manager.js";
+import type { MonitorType } from "./index.js";
+import type { MonitorModifier, Strategy } from "./types.js";
+
+// ── State ──────────────────────────────────────────────────────────
+
+const strategies = new Map<MonitorType, Strategy>();
+
+// ── Registry ───────────────────────────────────────────────────────
+
+export function registerStrategy(strategy: Strategy): void {
+  if (strategies.has(strategy.type)) {
+    throw new Error(`Strategy "${strategy.type}" is already registered`);
+  }
+  strategies.set(strategy.type, strategy);
+}
+
+/** All registered strategies, in registration order */
+export function getStrategies(): Strategy[] {
+  return [...strategies.values()];
+}
+
+export function getStrategy(type: MonitorType): Strategy | undefined {
+  return strategies.get(type);
+}
+
+/** Strategy for a monitor — unknown or missing types fall back to 'standard' */
+export function strategyFor(monitor: Pick<MonitoredToken, "type">): Strategy {
+  const strategy = strategies.get(monitor.type ?? "standard") ?? strategies.get("standard");
+  if (!strategy) throw new Error("No 'standard' strategy registered");
+  return strategy;
+}
+
+export function strategySupports(monitor: Pick<MonitoredToken, "type">, modifier: MonitorModifier): boolean {
+  return strategyFor(monitor).modifiers.includes(modifier);
+}
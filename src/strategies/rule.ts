@@ -0,0 +1,353 @@
+import { type Address } from "viem";
+import { type Context } from "grammy";
+import { config } from "../config/index.js";
+import type { TokenQuote } from "../pricing/index.js";
+import { getTokenInfo } from "../scanner/dexscreener.js";
+import {
+  getMonitor,
+  addMonitor,
+  updateMonitor,
+  removeMonitor,
+  setMonitorActive,
+  addHistoryEntry,
+  forceSellByAddress,
+  sellPercentByAddress,
+  type MonitoredToken,
+  type MonitorRule,
+  type RuleAction,
+} from "../positions/manager.js";
+import { buyToken } from "../swap/executor.js";
+import { notifyRuleFired } from "../telegram/bot.js";
+import { escapeHtml } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import {
+  parseRuleExpression,
+  evaluateRuleExpression,
+  rulePriceLevels,
+  RULE_VARIABLES,
+  type RuleVariables,
+} from "./expression.js";
+import { tradingBlocked, fillPriceFromSwap, monitorPriceCheck } from "./shared.js";
+import type { Strategy } from "./types.js";
+
+// ── Rule monitor ───────────────────────────────────────────────────
+
+/**
+ * Check every unfired rule in order and run the action of each whose
+ * condition holds. Rules are one-shot: a rule is marked fired once its action
+ * went through (or there was nothing to sell). A failed trade pauses the monitor
+ * rather than retrying every tick; /resume <address> re-arms it. A full sell —
+ * or every rule having fired — removes the monitor.
+ */
+async function processRule(monitor: MonitoredToken, currentPrice: number, quote: TokenQuote): Promise<void> {
+  const rules = (monitor.rules ?? []).map((r) => ({ ...r }));
+  const vars: RuleVariables = {
+    price: currentPrice,
+    changePct: monitor.entryPrice > 0 ? ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100 : 0,
+    liquidityUsd: quote.liquidityUsd,
+    volume24h: quote.volume24hUsd,
+    heldHours: (Date.now() - monitor.addedAt) / 3_600_000,
+  };
+  let changed = false;
+
+  for (const rule of rules) {
+    if (rule.firedAt || !evaluateRuleExpression(parseRuleExpression(rule.expression), vars)) continue;
+
+    const actionLabel = describeRuleAction(rule.action);
+    if (rule.action.kind !== "notify" && (await tradingBlocked(monitor, `rule "${actionLabel}"`, currentPrice))) {
+      continue;
+    }
+
+    logger.info({ symbol: monitor.symbol, expression: rule.expression, action: actionLabel, ...vars }, "RULE fired");
+
+    const outcome = await executeRuleAction(monitor, rule.action, currentPrice, vars.changePct);
+    // Held back by the price-deviation check, which has already alerted — retry next tick
+    if (outcome.deferred) continue;
+    if (outcome.success || outcome.noBalance) {
+      rule.firedAt = Date.now();
+      if (outcome.txHash) rule.txHash = outcome.txHash;
+      changed = true;
+    }
+
+    const soldAll = rule.action.kind === "sell" && rule.firedAt !== undefined;
+    const remaining = soldAll ? 0 : rules.filter((r) => !r.firedAt).length;
+
+    await notifyRuleFired(
+      monitor.symbol,
+      rule.expression,
+      actionLabel,
+      vars,
+      outcome.txHash,
+      outcome.success,
+      outcome.noBalance,
+      remaining
+    );
+
+    if (soldAll) {
+      removeMonitor(monitor.address);
+      logger.info({ symbol: monitor.symbol }, "Rule monitor removed after selling everything");
+      return;
+    }
+    if (!rule.firedAt) {
+      if (changed) updateMonitor(monitor.address, { rules });
+      setMonitorActive(monitor.address, false);
+      logger.error({ symbol: monitor.symbol, action: actionLabel }, "Rule action FAILED — monitor paused");
+      return;
+    }
+  }
+
+  if (!changed) return;
+
+  if (rules.every((r) => r.firedAt)) {
+    removeMonitor(monitor.address);
+    logger.info({ symbol: monitor.symbol }, "Rule monitor removed — every rule has fired");
+    return;
+  }
+
+  updateMonitor(monitor.address, { rules });
+}
+
+async function executeRuleAction(
+  monitor: MonitoredToken,
+  action: RuleAction,
+  currentPrice: number,
+  changePct: number
+): Promise<{ success: boolean; noBalance: boolean; deferred?: boolean; txHash: string }> {
+  switch (action.kind) {
+    case "notify":
+      return { success: true, noBalance: false, txHash: "" };
+
+    case "sell": {
+      const result = await forceSellByAddress(monitor.address, monitor.symbol, "rule", monitorPriceCheck(monitor, currentPrice, true));
+      return {
+        success: result.success,
+        noBalance: result.error?.includes("Zero token balance") ?? false,
+        deferred: result.deferred,
+        txHash: result.txHash ?? "",
+      };
+    }
+
+    case "sell-percent": {
+      const result = await sellPercentByAddress(
+        monitor.address,
+        monitor.symbol,
+        action.percent,
+        "rule",
+        changePct,
+        monitorPriceCheck(monitor, currentPrice, true)
+      );
+      return {
+        success: result.success,
+        noBalance: result.error?.includes("Zero token balance") ?? false,
+        deferred: result.deferred,
+        txHash: result.txHash ?? "",
+      };
+    }
+
+    case "buy": {
+      const result = await buyToken(monitor.address as Address, action.usdc.toString(), monitorPriceCheck(monitor, currentPrice));
+      if (result.success) {
+        addHistoryEntry({
+          type: "buy",
+          tokenAddress: monitor.address,
+          tokenSymbol: monitor.symbol,
+          price: await fillPriceFromSwap(monitor.address, action.usdc, result, currentPrice),
+          amount: result.buyAmount ?? "0",
+          usdcAmount: action.usdc.toString(),
+          txHash: result.txHash ?? "",
+          timestamp: Date.now(),
+          reason: "rule",
+        });
+      }
+      return { success: result.success, noBalance: false, deferred: result.deferred, txHash: result.txHash ?? "" };
+    }
+  }
+}
+
+/** Price levels a rule compares against (none if its condition doesn't parse) */
+function rulePriceTriggers(rule: MonitorRule): number[] {
+  try {
+    return rulePriceLevels(parseRuleExpression(rule.expression));
+  } catch {
+    return [];
+  }
+}
+
+// ── Actions ────────────────────────────────────────────────────────
+
+/** Parse "sell", "sell 50%", "buy 25" (USDC) or "notify" */
+function parseRuleAction(text: string): RuleAction | null {
+  const trimmed = text.trim().toLowerCase();
+  if (trimmed === "sell" || trimmed === "sell all") return { kind: "sell" };
+  if (trimmed === "notify") return { kind: "notify" };
+
+  const sellMatch = trimmed.match(/^sell\s+([\d.]+)%$/);
+  if (sellMatch) {
+    const percent = parseFloat(sellMatch[1]);
+    if (isNaN(percent) || percent <= 0 || percent > 100) return null;
+    return percent === 100 ? { kind: "sell" } : { kind: "sell-percent", percent };
+  }
+
+  const buyMatch = trimmed.match(/^buy\s+\$?([\d.]+)$/);
+  if (buyMatch) {
+    const usdc = parseFloat(buyMatch[1]);
+    return isNaN(usdc) || usdc <= 0 ? null : { kind: "buy", usdc };
+  }
+
+  return null;
+}
+
+function describeRuleAction(action: RuleAction): string {
+  switch (action.kind) {
+    case "sell": return "sell all";
+    case "sell-percent": return `sell ${action.percent}%`;
+    case "buy": return `buy $${action.usdc}`;
+    case "notify": return "notify";
+  }
+}
+
+// ── /rule command handler ──────────────────────────────────────────
+
+async function handleRule(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const match = text.match(/^\/rule(?:@\w+)?\s+(0x[a-fA-F0-9]{40})\s+(.+?)\s+if\s+(.+)$/is);
+
+  if (!match) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/rule &lt;contract-address&gt; &lt;action&gt; if &lt;condition&gt;</code>\n\n` +
+        `<b>Actions:</b> <code>sell</code>, <code>sell 50%</code>, <code>buy 25</code> (USDC), <code>notify</code>\n` +
+        `<b>Variables:</b> ${RULE_VARIABLES.map((v) => `<code>${v}</code>`).join(", ")}\n` +
+        `Combine comparisons with AND / OR and parentheses.\n\n` +
+        `<b>Examples:</b>\n` +
+        `<code>/rule 0x1234...abcd sell if price &lt; 0.004 AND liquidityUsd &lt; 50000 OR heldHours &gt; 72</code>\n` +
+        `<code>/rule 0x1234...abcd sell 50% if changePct &gt;= 100</code>\n` +
+        `<code>/rule 0x1234...abcd notify if volume24h &gt; 1000000</code>\n\n` +
+        `Each rule fires once; a failed trade pauses the monitor until /resume. ` +
+        `Adding a rule to a token that already has rules appends it.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = match[1];
+  const action = parseRuleAction(match[2]);
+  const expression = match[3].trim();
+
+  if (!action) {
+    await ctx.reply(
+      "❌ Invalid action. Use <code>sell</code>, <code>sell 50%</code>, <code>buy 25</code> or <code>notify</code>.",
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  try {
+    parseRuleExpression(expression);
+  } catch (err) {
+    await ctx.reply(`❌ Invalid condition: ${escapeHtml((err as Error).message)}`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const rule: MonitorRule = { expression, action };
+  const existing = getMonitor(contractAddress);
+
+  if (existing && existing.type !== "rule") {
+    await ctx.reply(
+      `❌ <b>${escapeHtml(existing.symbol)}</b> already has a ${existing.type ?? "standard"} monitor. /stop it first to use rules.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  if (existing) {
+    const rules = [...(existing.rules ?? []), rule];
+    updateMonitor(existing.address, { rules });
+    await ctx.reply(
+      `✅ <b>Rule added: ${escapeHtml(existing.symbol)}</b>\n\n` +
+        `🧩 ${escapeHtml(describeRuleAction(action))} if <code>${escapeHtml(expression)}</code>\n` +
+        `📐 ${rules.filter((r) => !r.firedAt).length} rule(s) armed`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  await ctx.reply("⏳ Looking up token...");
+  const info = await getTokenInfo(contractAddress);
+  if (!info) {
+    await ctx.reply(
+      `❌ Could not find token <code>${escapeHtml(contractAddress)}</code> on Base.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+  if (info.priceUsd <= 0) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(info.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const monitor: MonitoredToken = {
+    type: "rule",
+    address: info.address,
+    symbol: info.symbol,
+    name: info.name,
+    stopLossPrice: 0, // Exits are expressed as rules
+    entryPrice: info.priceUsd,
+    lastNotifiedMilestone: 0,
+    active: true,
+    dexScreenerUrl: info.dexScreenerUrl,
+    addedAt: Date.now(),
+    rules: [rule],
+  };
+
+  addMonitor(monitor);
+
+  await ctx.reply(
+    `✅ <b>Rule monitor: ${escapeHtml(info.symbol)}</b>\n\n` +
+      `📍 Address: <code>${info.address}</code>\n` +
+      `💵 Current price: $${info.priceUsd.toPrecision(6)} (entry for changePct and heldHours)\n` +
+      `🧩 ${escapeHtml(describeRuleAction(action))} if <code>${escapeHtml(expression)}</code>\n` +
+      `\n${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const ruleStrategy: Strategy = {
+  type: "rule",
+  icon: "📐",
+  modifiers: [],
+  validate: (m) => {
+    const rules = m.rules ?? [];
+    if (rules.length === 0) return "rule monitor has no rules";
+    for (const rule of rules) {
+      try {
+        parseRuleExpression(rule.expression);
+      } catch (err) {
+        return `invalid condition "${rule.expression}": ${(err as Error).message}`;
+      }
+      if (rule.action.kind === "sell-percent" && !(rule.action.percent > 0 && rule.action.percent <= 100)) {
+        return "rule sell percent must be between 0 and 100";
+      }
+      if (rule.action.kind === "buy" && !(rule.action.usdc > 0)) return "rule buy amount must be positive";
+    }
+    return null;
+  },
+  evaluate: processRule,
+  // Conditions can mix in liquidity and volume, so a level alone doesn't say a rule is pending
+  triggerPrices: (m) => (m.rules ?? []).filter((r) => !r.firedAt).flatMap(rulePriceTriggers).map((price) => ({ price })),
+  describe: (m) => {
+    const rules = m.rules ?? [];
+    const armed = rules.filter((r) => !r.firedAt).length;
+    return {
+      summary: `${armed}/${rules.length} rule(s) armed`,
+      details: rules.map((r) => `${r.firedAt ? "✅" : "⏳"} ${describeRuleAction(r.action)} if ${r.expression}`),
+    };
+  },
+  command: {
+    name: "rule",
+    usage: "<address> <action> if <condition>",
+    description: "Sell, buy or alert on a custom condition",
+    handler: handleRule,
+  },
+};
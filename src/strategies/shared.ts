@@ -0,0 +1,537 @@
+import { type Address } from "viem";
+import { config } from "../config/index.js";
+import { getTokenBalance, getTokenDecimals } from "../chain/wallet.js";
+import {
+  getPauseMode,
+  updateMonitor,
+  removeMonitor,
+  forceSellByAddress,
+  sellPartialByAddress,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { type PriceCheck, type SwapResult } from "../swap/executor.js";
+import {
+  notify,
+  notifyMilestone,
+  notifyDrawdown,
+  notifyTakeProfit,
+  notifyStopTier,
+  notifyStopBreach,
+} from "../telegram/bot.js";
+import { formatPrice, formatStopTiers } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import type { TriggerPrice } from "./types.js";
+
+// Building blocks shared by the strategies in this directory.
+
+// ── State ──────────────────────────────────────────────────────────
+
+/** "<address>:<action>" keys already alerted during the current trading pause */
+const pausedTradeAlerts = new Set<string>();
+
+// ── Trading pause guard ────────────────────────────────────────────
+
+/**
+ * Returns true if trading is paused, in which case the trade is skipped and the
+ * user is alerted once per monitor/action until trading resumes.
+ */
+export async function tradingBlocked(
+  monitor: MonitoredToken,
+  action: string,
+  currentPrice: number
+): Promise<boolean> {
+  if (getPauseMode() === "none") return false;
+
+  const key = `${monitor.address.toLowerCase()}:${action}`;
+  if (!pausedTradeAlerts.has(key)) {
+    pausedTradeAlerts.add(key);
+    logger.warn({ symbol: monitor.symbol, action, currentPrice }, "Trade skipped — trading paused");
+    await notify(
+      `⏸️ <b>${monitor.symbol}: ${action} skipped</b>\n\n` +
+        `💵 Price: $${currentPrice.toPrecision(6)}\n` +
+        `Trading is paused — no order was sent. Use /resume to re-enable trading.`,
+      "HTML"
+    );
+  }
+  return true;
+}
+
+/** Forget which skipped trades were alerted — call once trading resumes */
+export function clearPausedTradeAlerts(): void {
+  pausedTradeAlerts.clear();
+}
+
+/**
+ * Price-deviation check for a monitor's trade: the tick's price is the signal,
+ * and any fallback or on-chain re-check reads the monitor's pinned pair.
+ * `protective` marks exits that must not be held back indefinitely.
+ */
+export function monitorPriceCheck(monitor: MonitoredToken, currentPrice: number, protective = false): PriceCheck {
+  return { signalPrice: currentPrice, pairAddress: monitor.pairAddress, protective };
+}
+
+// ── Milestones ─────────────────────────────────────────────────────
+
+/**
+ * Notify when the gain from `basis` crosses a new multiple of `stepPercent`.
+ * On the first milestone, monitors that opted in get their stop moved to
+ * break-even (entry plus buffer), announced in the same message.
+ */
+export async function checkMilestones(
+  monitor: MonitoredToken,
+  currentPrice: number,
+  stepPercent: number,
+  basis: number,
+  logMessage: string
+): Promise<void> {
+  if (basis <= 0) return;
+
+  const gainPercent = ((currentPrice - basis) / basis) * 100;
+  const currentMilestone = Math.floor(gainPercent / stepPercent) * stepPercent;
+  if (currentMilestone <= 0 || currentMilestone <= monitor.lastNotifiedMilestone) return;
+
+  const updates: Partial<MonitoredToken> = { lastNotifiedMilestone: currentMilestone };
+  let extra: string | undefined;
+
+  if (
+    monitor.breakEvenBufferPercent !== undefined &&
+    !monitor.breakEvenApplied &&
+    monitor.stopLossPrice > 0 &&
+    monitor.entryPrice > 0
+  ) {
+    const breakEvenPrice = monitor.entryPrice * (1 + monitor.breakEvenBufferPercent / 100);
+    updates.breakEvenApplied = true;
+    if (breakEvenPrice > monitor.stopLossPrice) {
+      updates.stopLossPrice = breakEvenPrice;
+      updates.stopLossPercent = undefined;
+      updates.stopBreach = undefined;
+      const buffer = monitor.breakEvenBufferPercent > 0 ? ` (entry +${monitor.breakEvenBufferPercent}%)` : " (entry)";
+      extra = `🛡️ Stop moved to break-even: $${breakEvenPrice.toPrecision(6)}${buffer}`;
+      logger.info(
+        { symbol: monitor.symbol, oldStop: monitor.stopLossPrice, newStop: breakEvenPrice },
+        "Stop moved to break-even"
+      );
+    }
+  }
+
+  await notifyMilestone(monitor.symbol, currentPrice, basis, currentMilestone, extra);
+  updateMonitor(monitor.address, updates);
+  logger.info(
+    { symbol: monitor.symbol, milestone: currentMilestone, price: currentPrice },
+    logMessage
+  );
+}
+
+// ── Drawdown alerts ────────────────────────────────────────────────
+
+/**
+ * Alert-only counterpart to milestones: notify each time the price falls another
+ * `drawdownAlertPercent` below the entry (or the running high). Nothing is sold —
+ * it's a heads-up to decide manually before the hard stop.
+ */
+export async function checkDrawdown(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  const stepPercent = monitor.drawdownAlertPercent ?? 0;
+  if (stepPercent <= 0) return;
+
+  const fromHigh = monitor.drawdownFrom === "high";
+  const updates: Partial<MonitoredToken> = {};
+  let basis = monitor.entryPrice;
+
+  if (fromHigh) {
+    const previousHigh = monitor.highestPrice ?? monitor.entryPrice;
+    basis = Math.max(previousHigh, currentPrice);
+    if (basis > previousHigh) updates.highestPrice = basis;
+  }
+  if (basis <= 0) return;
+
+  const lastNotified = monitor.lastNotifiedDrawdown ?? 0;
+  const drawdownPercent = ((basis - currentPrice) / basis) * 100;
+  const currentLevel = Math.floor(drawdownPercent / stepPercent) * stepPercent;
+
+  if (drawdownPercent <= 0) {
+    // Back at (or above) the reference — re-arm from the top
+    if (lastNotified > 0) updates.lastNotifiedDrawdown = 0;
+  } else if (currentLevel > 0 && currentLevel > lastNotified) {
+    updates.lastNotifiedDrawdown = currentLevel;
+    await notifyDrawdown(
+      monitor.symbol,
+      monitor.address,
+      currentPrice,
+      basis,
+      fromHigh ? "high" : "entry",
+      currentLevel,
+      monitor.stopLossPrice
+    );
+    logger.info(
+      { symbol: monitor.symbol, drawdown: currentLevel, price: currentPrice, basis },
+      "Drawdown alert sent"
+    );
+  }
+
+  if (Object.keys(updates).length > 0) updateMonitor(monitor.address, updates);
+}
+
+// ── Take-profit ladder ─────────────────────────────────────────────
+
+/**
+ * Raw balance a ladder or tier set scales out of: the amount stored when it was
+ * set. If none was recorded (the wallet was empty then), the balance now is read
+ * and stored for the remaining steps.
+ */
+async function scaleOutBase(monitor: MonitoredToken, field: "ladderBaseAmount" | "stopTiersBaseAmount"): Promise<bigint> {
+  const stored = BigInt(monitor[field] ?? "0");
+  if (stored > 0n) return stored;
+
+  const balance = await getTokenBalance(monitor.address as Address);
+  if (balance > 0n) updateMonitor(monitor.address, { [field]: balance.toString() });
+  return balance;
+}
+
+/**
+ * Execute every take-profit rung the price has reached, lowest first.
+ * The last rung sells the whole remaining balance; once it fills the monitor is removed.
+ * Returns true if the monitor was removed.
+ */
+export async function processTakeProfits(monitor: MonitoredToken, currentPrice: number): Promise<boolean> {
+  const ladder = monitor.takeProfits;
+  if (!ladder || ladder.length === 0 || monitor.entryPrice <= 0) return false;
+
+  const gainPercent = ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100;
+  const rungs = ladder.map((r) => ({ ...r }));
+  let changed = false;
+  let baseAmount: bigint | undefined;
+
+  for (let i = 0; i < rungs.length; i++) {
+    const rung = rungs[i];
+    if (rung.filled || gainPercent < rung.gainPercent) continue;
+
+    if (await tradingBlocked(monitor, `take-profit +${rung.gainPercent}% sell`, currentPrice)) break;
+
+    const isLast = i === rungs.length - 1;
+    const reason = `take-profit +${rung.gainPercent}%`;
+    if (!isLast) baseAmount ??= await scaleOutBase(monitor, "ladderBaseAmount");
+
+    logger.info(
+      { symbol: monitor.symbol, gainPercent: gainPercent.toFixed(1), rung: rung.gainPercent, sellPercent: rung.sellPercent, isLast },
+      "TAKE-PROFIT rung triggered — selling"
+    );
+
+    const result = isLast
+      ? await forceSellByAddress(monitor.address, monitor.symbol, reason, monitorPriceCheck(monitor, currentPrice))
+      : await sellPartialByAddress(
+          monitor.address,
+          monitor.symbol,
+          ((baseAmount ?? 0n) * BigInt(Math.round(rung.sellPercent * 100))) / 10_000n,
+          reason,
+          gainPercent,
+          monitorPriceCheck(monitor, currentPrice)
+        );
+    // Held back by the price-deviation check, which has already alerted — retry next tick
+    if (result.deferred) break;
+
+    const isZeroBalance = result.error?.includes("Zero token balance") ?? false;
+
+    if (result.success || isZeroBalance) {
+      rung.filled = true;
+      rung.filledAt = Date.now();
+      if (result.txHash) rung.txHash = result.txHash;
+      changed = true;
+    }
+
+    const remaining = rungs.filter((r) => !r.filled).length;
+
+    await notifyTakeProfit(
+      monitor.symbol,
+      currentPrice,
+      monitor.entryPrice,
+      rung.gainPercent,
+      isLast ? "rest" : `${rung.sellPercent}%`,
+      remaining,
+      result.txHash ?? "",
+      result.success,
+      isZeroBalance
+    );
+
+    if (!result.success && !isZeroBalance) {
+      logger.error(
+        { symbol: monitor.symbol, rung: rung.gainPercent, error: result.error },
+        "Take-profit sell FAILED — will retry next tick"
+      );
+      break;
+    }
+  }
+
+  if (!changed) return false;
+
+  if (rungs[rungs.length - 1].filled) {
+    removeMonitor(monitor.address);
+    logger.info({ symbol: monitor.symbol }, "Monitor removed after final take-profit rung");
+    return true;
+  }
+
+  updateMonitor(monitor.address, { takeProfits: rungs });
+  return false;
+}
+
+// ── Tiered stop-loss ───────────────────────────────────────────────
+
+/**
+ * Scale out of a triggered stop across its tiers, highest price first. Call
+ * once stopLossTriggered() is true: the first unfilled tier fires at the
+ * current stop (which break-even or /rebase may have moved), and every further
+ * tier the price is already at or below fires on the same tick. Partial tiers
+ * sell a % of the balance held when the tiers were set, so 33/33/rest sells
+ * thirds; the last tier sells whatever remains. Fill state is persisted, so a
+ * restart never repeats a tier.
+ * Returns true if the monitor was removed.
+ */
+export async function processStopTiers(monitor: MonitoredToken, currentPrice: number): Promise<boolean> {
+  const tiers = (monitor.stopTiers ?? []).map((t) => ({ ...t }));
+  if (tiers.length === 0) return false;
+
+  const lossPercent = monitor.entryPrice > 0
+    ? ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100
+    : 0;
+  let changed = false;
+  let first = true;
+  let baseAmount: bigint | undefined;
+
+  for (let i = 0; i < tiers.length; i++) {
+    const tier = tiers[i];
+    if (tier.filled) continue;
+    if (!first && currentPrice > tier.price) break;
+    first = false;
+
+    if (await tradingBlocked(monitor, `stop tier $${formatPrice(tier.price)} sell`, currentPrice)) break;
+
+    const isLast = i === tiers.length - 1;
+    logger.info(
+      { symbol: monitor.symbol, currentPrice, tier: tier.price, sellPercent: tier.sellPercent, isLast },
+      "STOP TIER triggered — selling"
+    );
+
+    if (!isLast) baseAmount ??= await scaleOutBase(monitor, "stopTiersBaseAmount");
+
+    const result = isLast
+      ? await forceSellByAddress(monitor.address, monitor.symbol, "stop-loss", monitorPriceCheck(monitor, currentPrice, true))
+      : await sellPartialByAddress(
+          monitor.address,
+          monitor.symbol,
+          ((baseAmount ?? 0n) * BigInt(Math.round(tier.sellPercent * 100))) / 10_000n,
+          "stop-loss tier",
+          lossPercent,
+          monitorPriceCheck(monitor, currentPrice, true)
+        );
+    // Held back by the price-deviation check, which has already alerted — retry next tick
+    if (result.deferred) break;
+
+    const isZeroBalance = result.error?.includes("Zero token balance") ?? false;
+
+    if (result.success || isZeroBalance) {
+      tier.filled = true;
+      tier.filledAt = Date.now();
+      if (result.txHash) tier.txHash = result.txHash;
+      changed = true;
+    }
+
+    await notifyStopTier(
+      monitor.symbol,
+      currentPrice,
+      tier.price,
+      isLast ? "rest" : `${tier.sellPercent}%`,
+      tiers.filter((t) => !t.filled).length,
+      lossPercent,
+      result.txHash ?? "",
+      result.success,
+      isZeroBalance
+    );
+
+    if (!result.success && !isZeroBalance) {
+      logger.error(
+        { symbol: monitor.symbol, tier: tier.price, error: result.error },
+        "Stop tier sell FAILED — will retry next tick"
+      );
+      break;
+    }
+  }
+
+  if (!changed) return false;
+
+  if (tiers[tiers.length - 1].filled) {
+    removeMonitor(monitor.address);
+    logger.info({ symbol: monitor.symbol }, "Monitor removed after final stop tier");
+    return true;
+  }
+
+  // Arm the next tier
+  const next = tiers.find((t) => !t.filled)!;
+  updateMonitor(monitor.address, {
+    stopTiers: tiers,
+    stopLossPrice: next.price,
+    stopLossPercent: undefined,
+    stopBreach: undefined,
+  });
+  return false;
+}
+
+// ── Stop-loss confirmation ─────────────────────────────────────────
+
+/**
+ * Whether the stop-loss should fire this tick.
+ * Without a confirmation rule this is a plain `price <= stop` check. With one,
+ * a breach is tracked on the monitor (persisted, so it survives restarts) and the
+ * stop only fires once it has lasted `stopConfirmTicks` consecutive ticks and/or
+ * the time-weighted price has stayed at or below the stop for `stopConfirmSec`.
+ * Ticks count at the normal monitor interval, so fast polling near the stop
+ * doesn't shorten the confirmation. The first breached tick sends a heads-up.
+ */
+export async function stopLossTriggered(monitor: MonitoredToken, currentPrice: number): Promise<boolean> {
+  const ticksRule = monitor.stopConfirmTicks ?? 0;
+  const secRule = monitor.stopConfirmSec ?? 0;
+  const below = currentPrice <= monitor.stopLossPrice;
+
+  if (ticksRule <= 1 && secRule <= 0) return below;
+
+  const now = Date.now();
+  const prev = monitor.stopBreach;
+
+  if (!prev) {
+    if (!below) return false;
+
+    updateMonitor(monitor.address, {
+      stopBreach: { count: 1, countedAt: now, startedAt: now, twapSum: 0, lastPrice: currentPrice, lastAt: now },
+    });
+    logger.info(
+      { symbol: monitor.symbol, currentPrice, stopLoss: monitor.stopLossPrice },
+      "Stop-loss breached — waiting for confirmation"
+    );
+    await notifyStopBreach(monitor.symbol, currentPrice, monitor.stopLossPrice, describeConfirmRule(monitor));
+    return false;
+  }
+
+  // Fast-poll ticks in between don't count; the slack covers a normal tick
+  // running a little early (the loop checks monitors at the fast rate)
+  const countEveryMs = (config.monitorIntervalSec - config.fastPollIntervalSec) * 1000;
+  const counts = prev.count === 0 || now - (prev.countedAt ?? prev.lastAt) >= countEveryMs;
+  const breach = {
+    count: !below ? 0 : counts ? prev.count + 1 : prev.count,
+    countedAt: !below || counts ? now : prev.countedAt ?? prev.lastAt,
+    startedAt: prev.startedAt,
+    twapSum: prev.twapSum + prev.lastPrice * (now - prev.lastAt),
+    lastPrice: currentPrice,
+    lastAt: now,
+  };
+  const elapsedMs = now - breach.startedAt;
+  const twap = elapsedMs > 0 ? breach.twapSum / elapsedMs : currentPrice;
+
+  // A tick above the stop resets a tick-count rule; a time rule resets only
+  // once the time-weighted price is back above the stop.
+  const recovered = secRule > 0 ? twap > monitor.stopLossPrice : !below;
+  if (recovered) {
+    updateMonitor(monitor.address, { stopBreach: undefined });
+    logger.info({ symbol: monitor.symbol, currentPrice, twap }, "Stop-loss breach cleared");
+    return false;
+  }
+
+  updateMonitor(monitor.address, { stopBreach: breach });
+
+  const ticksOk = ticksRule <= 1 || breach.count >= ticksRule;
+  const timeOk = secRule <= 0 || elapsedMs >= secRule * 1000;
+  const confirmed = below && ticksOk && timeOk;
+
+  logger.debug(
+    { symbol: monitor.symbol, count: breach.count, elapsedSec: Math.round(elapsedMs / 1000), twap, confirmed },
+    "Stop-loss breach update"
+  );
+
+  return confirmed;
+}
+
+function describeConfirmRule(monitor: MonitoredToken): string {
+  const rules: string[] = [];
+  if ((monitor.stopConfirmTicks ?? 0) > 1) rules.push(`${monitor.stopConfirmTicks} consecutive ticks`);
+  if ((monitor.stopConfirmSec ?? 0) > 0) rules.push(`${monitor.stopConfirmSec}s time-weighted`);
+  return rules.join(" + ");
+}
+
+// ── Cost basis ─────────────────────────────────────────────────────
+
+/**
+ * Effective USD price per token of a USDC → token buy.
+ * Falls back to `fallbackPrice` when the swap didn't report a token amount.
+ */
+export async function fillPriceFromSwap(
+  tokenAddress: string,
+  usdcAmount: number,
+  result: SwapResult,
+  fallbackPrice: number
+): Promise<number> {
+  if (!result.buyAmount || BigInt(result.buyAmount) === 0n) return fallbackPrice;
+  const decimals = await getTokenDecimals(tokenAddress as Address);
+  const tokens = Number(BigInt(result.buyAmount)) / 10 ** decimals;
+  return tokens > 0 ? usdcAmount / tokens : fallbackPrice;
+}
+
+/**
+ * Fold a buy into the monitor's volume-weighted average cost.
+ * Tokens already held when the monitor was created (anchorTokens) count at the
+ * anchor entry price, so the average blends the original position with every fill.
+ */
+export async function blendCostBasis(
+  monitor: MonitoredToken,
+  usdcAmount: number,
+  boughtRaw: bigint
+): Promise<{ tokensAcquired: string; avgCostPrice: number }> {
+  const decimals = await getTokenDecimals(monitor.address as Address);
+  const toUnits = (raw: bigint) => Number(raw) / 10 ** decimals;
+
+  const prevAcquired = BigInt(monitor.tokensAcquired ?? "0");
+  const tokensAcquired = prevAcquired + boughtRaw;
+
+  const prevUnits = toUnits(BigInt(monitor.anchorTokens ?? "0") + prevAcquired);
+  const prevAvg = monitor.avgCostPrice ?? monitor.entryPrice;
+  const totalUnits = prevUnits + toUnits(boughtRaw);
+
+  const avgCostPrice = totalUnits > 0
+    ? (prevAvg * prevUnits + usdcAmount) / totalUnits
+    : prevAvg;
+
+  return { tokensAcquired: tokensAcquired.toString(), avgCostPrice };
+}
+
+// ── Trigger levels ─────────────────────────────────────────────────
+
+/** The stop-loss plus any unfilled take-profit rungs, for `Strategy.triggerPrices` */
+export function stopAndLadderTriggers(m: MonitoredToken): TriggerPrice[] {
+  const triggers: TriggerPrice[] = m.stopLossPrice > 0 ? [{ price: m.stopLossPrice, fires: "below" }] : [];
+  if (m.entryPrice > 0) {
+    for (const rung of m.takeProfits ?? []) {
+      if (!rung.filled) triggers.push({ price: m.entryPrice * (1 + rung.gainPercent / 100), fires: "above" });
+    }
+  }
+  return triggers;
+}
+
+// ── Descriptions ───────────────────────────────────────────────────
+
+/** Fixed stop-loss line for /monitors (nothing when the monitor has no stop) */
+export function describeStopLoss(m: MonitoredToken): string[] {
+  if (m.stopTiers?.length) return [`🛑 SL tiers: ${formatStopTiers(m.stopTiers)}`];
+  if (m.stopLossPrice <= 0) return [];
+  const slPercent = m.entryPrice > 0
+    ? ((m.entryPrice - m.stopLossPrice) / m.entryPrice * 100).toFixed(1)
+    : "?";
+  const setAs = m.stopLossPercent !== undefined ? `, set as -${m.stopLossPercent}%` : "";
+  return [`🛑 SL: $${formatPrice(m.stopLossPrice)} (${slPercent}% below${setAs})`];
+}
+
+export function describeMilestones(m: MonitoredToken): string[] {
+  return [`📊 Notify: every +${m.notifyPercent ?? 25}% | Last: +${m.lastNotifiedMilestone}%`];
+}
+
+/** One-line stop summary for /status */
+export function summarizeStopLoss(m: MonitoredToken): string {
+  if (m.stopLossPrice <= 0) return "no SL";
+  const tiers = m.stopTiers?.filter((t) => !t.filled).length ?? 0;
+  return `SL: $${formatPrice(m.stopLossPrice)}${tiers > 1 ? ` (+${tiers - 1} tier${tiers > 2 ? "s" : ""})` : ""}`;
+}
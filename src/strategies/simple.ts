@@ -0,0 +1,231 @@
+import { type Context } from "grammy";
+import { config } from "../config/index.js";
+import { getTokenInfo } from "../scanner/dexscreener.js";
+import {
+  getPosition,
+  removePosition,
+  removeMonitor,
+  addMonitor,
+  forceSellByAddress,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { notify, notifyStopLossHit } from "../telegram/bot.js";
+import { escapeHtml, formatPrice, parseStopLossArg, resolveStopLoss } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import {
+  tradingBlocked,
+  stopLossTriggered,
+  processStopTiers,
+  processTakeProfits,
+  checkMilestones,
+  checkDrawdown,
+  describeStopLoss,
+  describeMilestones,
+  summarizeStopLoss,
+  stopAndLadderTriggers,
+  monitorPriceCheck,
+} from "./shared.js";
+import type { Strategy } from "./types.js";
+
+// ── Simple monitor ─────────────────────────────────────────────────
+
+async function processSimple(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  const notifyPct = monitor.notifyPercent ?? 25;
+
+  // ── Stop-loss check ────────────────────────────────────────────
+  if (monitor.stopLossPrice > 0 && (await stopLossTriggered(monitor, currentPrice))) {
+    if (monitor.stopTiers?.length) {
+      await processStopTiers(monitor, currentPrice);
+      return;
+    }
+    if (await tradingBlocked(monitor, "stop-loss sell", currentPrice)) return;
+
+    logger.info(
+      { symbol: monitor.symbol, currentPrice, stopLoss: monitor.stopLossPrice },
+      "SIMPLE STOP-LOSS TRIGGERED — attempting sell"
+    );
+
+    // Always attempt to sell from wallet (forceSellByAddress checks actual wallet balance)
+    const result = await forceSellByAddress(monitor.address, monitor.symbol, "stop-loss", monitorPriceCheck(monitor, currentPrice, true));
+    // Held back by the price-deviation check, which has already alerted — retry next tick
+    if (result.deferred) return;
+    const lossPercent = ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100;
+
+    if (result.success) {
+      await notifyStopLossHit(
+        monitor.symbol,
+        currentPrice,
+        monitor.stopLossPrice,
+        lossPercent,
+        result.txHash ?? "",
+        true
+      );
+
+      // Also remove tracked position if one exists
+      const position = getPosition(monitor.address);
+      if (position) {
+        removePosition(monitor.address);
+      }
+    } else {
+      // Sell failed (possibly zero balance — wallet doesn't hold the token)
+      const isZeroBalance = result.error?.includes("Zero token balance");
+
+      if (isZeroBalance) {
+        logger.info(
+          { symbol: monitor.symbol },
+          "SIMPLE STOP-LOSS — no tokens in wallet, notify only"
+        );
+        await notify(
+          `🛑 <b>STOP-LOSS HIT: ${monitor.symbol}</b>\n\n` +
+            `💵 Price: $${currentPrice.toPrecision(6)}\n` +
+            `🎯 Stop-loss was: $${monitor.stopLossPrice}\n` +
+            `📉 Change from entry: ${lossPercent >= 0 ? "+" : ""}${lossPercent.toFixed(1)}%\n` +
+            `ℹ️ No tokens in wallet — notification only`,
+          "HTML"
+        );
+      } else {
+        // Actual sell failure — notify and retry next tick
+        await notifyStopLossHit(
+          monitor.symbol,
+          currentPrice,
+          monitor.stopLossPrice,
+          lossPercent,
+          "",
+          false
+        );
+        logger.error(
+          { symbol: monitor.symbol, error: result.error },
+          "Stop-loss sell FAILED — will retry next tick"
+        );
+        return; // Don't remove monitor — retry next tick
+      }
+    }
+
+    removeMonitor(monitor.address);
+    logger.info({ symbol: monitor.symbol }, "Simple monitor removed after stop-loss");
+    return;
+  }
+
+  // ── Take-profit ladder ─────────────────────────────────────────
+  if (await processTakeProfits(monitor, currentPrice)) return;
+
+  // ── Downside alerts (no sell) ──────────────────────────────────
+  await checkDrawdown(monitor, currentPrice);
+
+  // ── Custom % milestone check (upward only) ────────────────────
+  await checkMilestones(monitor, currentPrice, notifyPct, monitor.entryPrice, "Simple monitor milestone reached");
+}
+
+// ── /simple command handler ────────────────────────────────────────
+
+async function handleSimple(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 4) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/simple &lt;contract-address&gt; &lt;stop-loss&gt; &lt;notify-percent&gt;</code>\n\n` +
+        `<b>Examples:</b>\n<code>/simple 0x1234...abcd 0.003 5</code>\n` +
+        `Monitors the token, notifies every +5% gain, auto-sells at $0.003 if you hold a position.\n` +
+        `<code>/simple 0x1234...abcd -20% 5</code>\n` +
+        `Same, with the stop-loss 20% below the current price.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const stopInput = parseStopLossArg(parts[2]);
+  const notifyPercent = parseFloat(parts[3]);
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
+    return;
+  }
+  if (!stopInput) {
+    await ctx.reply("❌ Invalid stop-loss. Must be a positive price (0.003) or a percent below current price (-20%).");
+    return;
+  }
+  if (isNaN(notifyPercent) || notifyPercent <= 0) {
+    await ctx.reply("❌ Invalid notify percent. Must be a positive number.");
+    return;
+  }
+
+  await ctx.reply("⏳ Looking up token...");
+  const info = await getTokenInfo(contractAddress);
+  if (!info) {
+    await ctx.reply(
+      `❌ Could not find token <code>${escapeHtml(contractAddress)}</code> on Base.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+  if (info.priceUsd <= 0) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(info.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+  const { stopLossPrice: stopLoss, stopLossPercent } = resolveStopLoss(stopInput, info.priceUsd);
+  if (stopLoss >= info.priceUsd) {
+    await ctx.reply(
+      `⚠️ Stop-loss ($${stopLoss}) is at or above current price ($${info.priceUsd.toPrecision(6)}).\n` +
+        `Please set a stop-loss below current price.`
+    );
+    return;
+  }
+
+  const monitor: MonitoredToken = {
+    type: "simple",
+    address: info.address,
+    symbol: info.symbol,
+    name: info.name,
+    stopLossPrice: stopLoss,
+    stopLossPercent,
+    entryPrice: info.priceUsd,
+    lastNotifiedMilestone: 0,
+    active: true,
+    dexScreenerUrl: info.dexScreenerUrl,
+    addedAt: Date.now(),
+    notifyPercent,
+  };
+
+  addMonitor(monitor);
+
+  const slPercent = ((info.priceUsd - stopLoss) / info.priceUsd * 100).toFixed(1);
+
+  await ctx.reply(
+    `✅ <b>Simple monitor: ${escapeHtml(info.symbol)}</b>\n\n` +
+      `📍 Address: <code>${info.address}</code>\n` +
+      `💵 Current price: $${info.priceUsd.toPrecision(6)}\n` +
+      `🛑 Stop-loss: $${formatPrice(stopLoss)} (${slPercent}% below)\n` +
+      `📊 Notify: every +${notifyPercent}% gain\n` +
+      `⏱️ Checking every ${config.monitorIntervalSec}s\n` +
+      `🔴 Will auto-sell on stop-loss (sells from wallet balance)\n\n` +
+      `${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const simpleStrategy: Strategy = {
+  type: "simple",
+  icon: "🔍",
+  modifiers: ["rebase", "breakeven", "ladder", "drawdown", "tiers"],
+  validate: (m) => {
+    if (m.stopLossPrice < 0) return "stop-loss price must not be negative";
+    if (m.notifyPercent !== undefined && m.notifyPercent <= 0) return "notify percent must be positive";
+    return null;
+  },
+  evaluate: processSimple,
+  triggerPrices: stopAndLadderTriggers,
+  describe: (m) => ({
+    summary: summarizeStopLoss(m),
+    details: [...describeStopLoss(m), ...describeMilestones(m)],
+  }),
+  command: {
+    name: "simple",
+    usage: "<address> <stop-loss> <notify%>",
+    description: "Monitor with custom notify interval",
+    handler: handleSimple,
+  },
+};
@@ -0,0 +1,98 @@
+import {
+  removeMonitor,
+  forceSellByAddress,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { notifyStopLossHit } from "../telegram/bot.js";
+import { logger } from "../utils/logger.js";
+import {
+  tradingBlocked,
+  stopLossTriggered,
+  processStopTiers,
+  processTakeProfits,
+  checkMilestones,
+  checkDrawdown,
+  describeStopLoss,
+  describeMilestones,
+  summarizeStopLoss,
+  stopAndLadderTriggers,
+  monitorPriceCheck,
+} from "./shared.js";
+import type { Strategy } from "./types.js";
+
+// ── Standard monitor (original behavior) ───────────────────────────
+
+/** Stop-loss sell + take-profit ladder + 25% milestones (also the tail of a trailing tick) */
+export async function processStandard(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  // ── Stop-loss check ────────────────────────────────────────────
+  if (await stopLossTriggered(monitor, currentPrice)) {
+    if (monitor.stopTiers?.length) {
+      await processStopTiers(monitor, currentPrice);
+      return;
+    }
+    if (await tradingBlocked(monitor, "stop-loss sell", currentPrice)) return;
+
+    logger.info(
+      { symbol: monitor.symbol, currentPrice, stopLoss: monitor.stopLossPrice },
+      "STOP-LOSS TRIGGERED — selling all holdings"
+    );
+
+    const result = await forceSellByAddress(monitor.address, monitor.symbol, "stop-loss", monitorPriceCheck(monitor, currentPrice, true));
+    // Held back by the price-deviation check, which has already alerted — retry next tick
+    if (result.deferred) return;
+
+    if (result.success) {
+      const lossPercent = ((currentPrice - monitor.entryPrice) / monitor.entryPrice) * 100;
+      await notifyStopLossHit(
+        monitor.symbol,
+        currentPrice,
+        monitor.stopLossPrice,
+        lossPercent,
+        result.txHash ?? "",
+        true
+      );
+      removeMonitor(monitor.address);
+      logger.info({ symbol: monitor.symbol }, "Monitor removed after stop-loss sell");
+    } else {
+      await notifyStopLossHit(
+        monitor.symbol,
+        currentPrice,
+        monitor.stopLossPrice,
+        0,
+        "",
+        false
+      );
+      logger.error(
+        { symbol: monitor.symbol, error: result.error },
+        "Stop-loss sell FAILED — will retry next tick"
+      );
+    }
+
+    return;
+  }
+
+  // ── Take-profit ladder ─────────────────────────────────────────
+  if (await processTakeProfits(monitor, currentPrice)) return;
+
+  // ── Downside alerts (no sell) ──────────────────────────────────
+  await checkDrawdown(monitor, currentPrice);
+
+  // ── 25% milestone check ────────────────────────────────────────
+  await checkMilestones(monitor, currentPrice, 25, monitor.entryPrice, "Price milestone reached");
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const standardStrategy: Strategy = {
+  type: "standard",
+  icon: "📋",
+  modifiers: ["rebase", "breakeven", "ladder", "drawdown", "tiers"],
+  validate: (m) => (m.stopLossPrice >= 0 ? null : "stop-loss price must not be negative"),
+  evaluate: processStandard,
+  triggerPrices: stopAndLadderTriggers,
+  describe: (m) => ({
+    summary: summarizeStopLoss(m),
+    details: [...describeStopLoss(m), ...describeMilestones(m)],
+  }),
+  // Created by sending "<address> <stop-loss>" — see the text handler in telegram/bot.ts
+};
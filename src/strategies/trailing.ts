@@ -0,0 +1,164 @@
+import { type Context } from "grammy";
+import { config } from "../config/index.js";
+import { getTokenInfo } from "../scanner/dexscreener.js";
+import {
+  updateMonitor,
+  addMonitor,
+  computeTrailingStop,
+  type MonitoredToken,
+} from "../positions/manager.js";
+import { escapeHtml, formatPrice } from "../telegram/format.js";
+import { logger } from "../utils/logger.js";
+import { describeMilestones, stopAndLadderTriggers } from "./shared.js";
+import { processStandard } from "./standard.js";
+import type { Strategy } from "./types.js";
+
+// ── Trailing monitor ───────────────────────────────────────────────
+
+async function processTrailing(monitor: MonitoredToken, currentPrice: number): Promise<void> {
+  const previousHigh = monitor.highestPrice ?? monitor.entryPrice;
+
+  // ── Ratchet the stop (never moves down) ────────────────────────
+  if (currentPrice > previousHigh) {
+    const trailedStop = computeTrailingStop(monitor, currentPrice);
+    const stopLossPrice = Math.max(monitor.stopLossPrice, trailedStop);
+
+    updateMonitor(monitor.address, { highestPrice: currentPrice, stopLossPrice });
+
+    if (stopLossPrice > monitor.stopLossPrice) {
+      logger.info(
+        { symbol: monitor.symbol, high: currentPrice, oldStop: monitor.stopLossPrice, newStop: stopLossPrice },
+        "Trailing stop raised"
+      );
+    }
+
+    monitor = { ...monitor, highestPrice: currentPrice, stopLossPrice };
+  }
+
+  // ── Stop-loss + milestones behave like a standard monitor ──────
+  await processStandard(monitor, currentPrice);
+}
+
+// ── /trailing command handler ──────────────────────────────────────
+
+async function handleTrailing(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 3) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/trailing &lt;contract-address&gt; &lt;trail%|trail-amount&gt;</code>\n\n` +
+        `<b>Examples:</b>\n` +
+        `<code>/trailing 0x1234...abcd 15%</code> — stop trails 15% below the highest price\n` +
+        `<code>/trailing 0x1234...abcd 0.0005</code> — stop trails $0.0005 below the highest price\n` +
+        `The stop only ever moves up. Auto-sells when price falls to it.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const trailArg = parts[2].trim();
+  const isPercent = trailArg.endsWith("%");
+  const trailValue = parseFloat(isPercent ? trailArg.slice(0, -1) : trailArg);
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
+    return;
+  }
+  if (isNaN(trailValue) || trailValue <= 0 || (isPercent && trailValue >= 100)) {
+    await ctx.reply("❌ Invalid trail. Use a percent between 0 and 100 (e.g. 15%) or a positive price distance.");
+    return;
+  }
+
+  await ctx.reply("⏳ Looking up token...");
+  const info = await getTokenInfo(contractAddress);
+  if (!info) {
+    await ctx.reply(
+      `❌ Could not find token <code>${escapeHtml(contractAddress)}</code> on Base.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+  if (info.priceUsd <= 0) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(info.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const trail = isPercent ? { trailPercent: trailValue } : { trailAmount: trailValue };
+  const stopLossPrice = computeTrailingStop(trail, info.priceUsd);
+
+  if (stopLossPrice <= 0) {
+    await ctx.reply(
+      `⚠️ Trail distance ($${trailValue}) is larger than the current price ($${info.priceUsd.toPrecision(6)}).\n` +
+        `Please use a smaller distance.`
+    );
+    return;
+  }
+
+  const monitor: MonitoredToken = {
+    type: "trailing",
+    address: info.address,
+    symbol: info.symbol,
+    name: info.name,
+    stopLossPrice,
+    entryPrice: info.priceUsd,
+    lastNotifiedMilestone: 0,
+    active: true,
+    dexScreenerUrl: info.dexScreenerUrl,
+    addedAt: Date.now(),
+    ...trail,
+    highestPrice: info.priceUsd,
+  };
+
+  addMonitor(monitor);
+
+  const trailLabel = isPercent ? `${trailValue}%` : `$${trailValue}`;
+
+  await ctx.reply(
+    `✅ <b>Trailing monitor: ${escapeHtml(info.symbol)}</b>\n\n` +
+      `📍 Address: <code>${info.address}</code>\n` +
+      `💵 Current price: $${info.priceUsd.toPrecision(6)}\n` +
+      `📈 Trail: ${trailLabel} below the highest price\n` +
+      `🛑 Initial stop: $${stopLossPrice.toPrecision(6)}\n` +
+      `📊 Milestones: every +25% from entry\n` +
+      `⏱️ Checking every ${config.monitorIntervalSec}s\n\n` +
+      `${config.dryRun ? "🔧 <b>DRY RUN MODE</b> — sells won't execute" : "🔴 <b>LIVE MODE</b> — will auto-sell on stop-loss"}`,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── Strategy ───────────────────────────────────────────────────────
+
+export const trailingStrategy: Strategy = {
+  type: "trailing",
+  icon: "📈",
+  modifiers: ["breakeven", "ladder", "drawdown"],
+  validate: (m) => {
+    if (m.trailPercent !== undefined) {
+      return m.trailPercent > 0 && m.trailPercent < 100 ? null : "trail percent must be between 0 and 100";
+    }
+    return (m.trailAmount ?? 0) > 0 ? null : "trailing monitor needs a trail percent or amount";
+  },
+  evaluate: processTrailing,
+  triggerPrices: stopAndLadderTriggers,
+  describe: (m) => {
+    const high = m.highestPrice ?? m.entryPrice;
+    const trail = m.trailPercent !== undefined ? `${m.trailPercent}%` : `$${m.trailAmount}`;
+    const belowHigh = high > 0 ? ((high - m.stopLossPrice) / high * 100).toFixed(1) : "?";
+    return {
+      summary: `SL: $${formatPrice(m.stopLossPrice)}`,
+      details: [
+        `📈 High: $${high.toPrecision(6)} | Trail: ${trail}`,
+        `🛑 Current stop: $${m.stopLossPrice.toPrecision(6)} (${belowHigh}% below high)`,
+        ...describeMilestones(m),
+      ],
+    };
+  },
+  command: {
+    name: "trailing",
+    usage: "<address> <trail%|trail-amount>",
+    description: "Stop-loss that trails new highs",
+    handler: handleTrailing,
+  },
+};
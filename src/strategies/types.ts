@@ -0,0 +1,68 @@
+import type { Context } from "grammy";
+import type { MonitoredToken } from "../positions/manager.js";
+import type { MonitorType } from "./index.js";
+import type { TokenQuote } from "../pricing/index.js";
+
+// ── Types ──────────────────────────────────────────────────────────
+
+/** Generic commands that modify an existing monitor (as opposed to creating one) */
+export type MonitorModifier = "rebase" | "breakeven" | "ladder" | "drawdown" | "tiers";
+
+/** Telegram command that creates monitors of a strategy's type */
+export interface StrategyCommand {
+  /** Command name without the slash, e.g. "grid" */
+  name: string;
+  /** Argument summary for /start, e.g. "<address> <lower> <upper>" (plain text) */
+  usage: string;
+  /** One-line description for /start */
+  description: string;
+  handler: (ctx: Context) => Promise<void>;
+}
+
+/** Plain-text description of a monitor, shared by Telegram and the API */
+export interface StrategyDescription {
+  /** One line for /status, e.g. "$120/$500 spent" */
+  summary: string;
+  /** Strategy-specific lines for /monitors */
+  details: string[];
+}
+
+/** A price a monitor acts at, for adaptive polling */
+export interface TriggerPrice {
+  price: number;
+  /**
+   * Side it fires on — "below" for stops and buy levels, "above" for
+   * take-profits. Once the price is past it (a stop whose sell failed or was
+   * deferred) the monitor keeps fast polling however far the price gaps.
+   * Omitted for levels that only fire on a crossing.
+   */
+  fires?: "below" | "above";
+}
+
+export interface Strategy {
+  /** Monitor type handled by this strategy */
+  type: MonitorType;
+  /** Icon shown next to monitors of this type */
+  icon: string;
+  /** Generic modifier commands that apply to this type */
+  modifiers: MonitorModifier[];
+  /** Monitors of this type hold no tokens (e.g. a pending limit buy) — skips the liquidity-drain exit */
+  skipLiquidityExit?: boolean;
+  /** Returns why the monitor's parameters are unusable, or null when they're fine */
+  validate(monitor: MonitoredToken): string | null;
+  /** Evaluate one price tick — `quote` carries the rest of the pool data (liquidity, volume) */
+  evaluate(monitor: MonitoredToken, currentPrice: number, quote: TokenQuote): Promise<void>;
+  /**
+   * Prices at which the next tick could trade. The scheduler polls a monitor
+   * faster while the price is within FAST_POLL_BAND_PCT of any of them; without
+   * this hook it always polls at the normal rate.
+   */
+  triggerPrices?(monitor: MonitoredToken): TriggerPrice[];
+  /** `currentPrice` is passed when the caller has a fresh quote (e.g. /monitors) */
+  describe(monitor: MonitoredToken, currentPrice?: number): StrategyDescription;
+  command?: StrategyCommand;
+  /** Reconcile background work (e.g. cron jobs) with the monitor list — runs on start and every tick */
+  sync?(): void;
+  /** Tear down background work when the monitor loop stops */
+  stop?(): void;
+}
@@ -1,4 +1,4 @@
-import { type Address, parseUnits, type Hex } from "viem";
+import { type Address, parseUnits, formatUnits, type Hex } from "viem";
 import {
   config,
   USDC_ADDRESS,
@@ -9,7 +9,10 @@ import {
   getPublicClient,
   getWalletAddress,
   ensureAllowance,
+  getTokenDecimals,
+  getTokenSymbol,
 } from "../chain/wallet.js";
+import { getTokenPrice, createOnChainSource } from "../pricing/index.js";
 import { logger } from "../utils/logger.js";
 
 // ── Types (0x v2 Allowance Holder API) ─────────────────────────────
@@ -68,6 +71,24 @@ export interface SwapResult {
   buyAmount?: string;
   sellAmount?: string;
   error?: string;
+  /** Refused by the price-deviation guard — nothing was sent, try again on a later tick */
+  deferred?: boolean;
+}
+
+/** Reference price a swap quote is checked against before executing */
+export interface PriceCheck {
+  /** USD price per token that triggered the trade (default: fetched from the price sources) */
+  signalPrice?: number;
+  /**
+   * Protective exit (stop-loss, stop tier, expiry). The signal is DexScreener's
+   * lagging print, so a quote far below it is re-checked against a fresh
+   * on-chain price, and is only deferred for PRICE_DEVIATION_MAX_DEFER_SEC.
+   */
+  protective?: boolean;
+  /** Pair the monitor is pinned to — the fallback signal price and the on-chain re-check read this pool */
+  pairAddress?: string;
+  /** Execute whatever the quote says — for manual sells and emergency exits */
+  skip?: boolean;
 }
 
 // ── Constants ──────────────────────────────────────────────────────
@@ -75,6 +96,20 @@ export interface SwapResult {
 const ZEROX_BASE_URL = "https://api.0x.org";
 const BASE_CHAIN_ID = "8453";
 
+/** Repeat price-deviation alerts for the same token and side at most this often */
+const DEVIATION_ALERT_COOLDOWN_MS = 15 * 60 * 1000;
+
+// ── State ──────────────────────────────────────────────────────────
+
+/** Last price-deviation alert per "<side>:<lowercase address>" */
+const lastDeviationAlert = new Map<string, number>();
+
+/** When a protective sell was first deferred, per lowercase address */
+const protectiveDeferredSince = new Map<string, number>();
+
+/** Pool reads for re-checking protective sells — independent of PRICE_SOURCES */
+const onChainSource = createOnChainSource();
+
 // ── Helpers ────────────────────────────────────────────────────────
 
 function buildHeaders(): Record<string, string> {
@@ -144,6 +179,118 @@ async function fetchPrice(
   return data;
 }
 
+// ── Price-deviation guard ──────────────────────────────────────────
+
+/**
+ * Compare the price a 0x quote would actually fill at with the signal price
+ * that triggered the trade. Returns an error message if the quote is worse by
+ * more than MAX_PRICE_DEVIATION_PCT, null if the swap may go ahead. Only the
+ * adverse side counts — a quote better than the signal just means the signal
+ * is a little stale. Without a signal price there's nothing to compare, so
+ * the swap proceeds.
+ *
+ * Protective sells aren't refused outright: in a fast dump the live pool is
+ * genuinely below the last DexScreener print. They go ahead if the quote
+ * agrees with a fresh on-chain price, or once they've been deferred for
+ * PRICE_DEVIATION_MAX_DEFER_SEC (which also covers plain price impact on a
+ * thin pool).
+ */
+async function checkPriceDeviation(
+  side: "buy" | "sell",
+  tokenAddress: Address,
+  quote: { sellAmount: string; buyAmount: string },
+  check: PriceCheck
+): Promise<string | null> {
+  if (check.skip || config.maxPriceDeviationPercent <= 0) return null;
+
+  const signalPrice = check.signalPrice ?? (await getTokenPrice(tokenAddress, check.pairAddress));
+  if (!signalPrice || signalPrice <= 0) {
+    logger.warn({ token: tokenAddress, side }, "No signal price — skipping price-deviation check");
+    return null;
+  }
+
+  const decimals = await getTokenDecimals(tokenAddress);
+  const [tokenRaw, usdcRaw] = side === "sell"
+    ? [quote.sellAmount, quote.buyAmount]
+    : [quote.buyAmount, quote.sellAmount];
+  const tokenAmount = Number(formatUnits(BigInt(tokenRaw), decimals));
+  const usdcAmount = Number(formatUnits(BigInt(usdcRaw), USDC_DECIMALS));
+  if (tokenAmount <= 0) return null;
+
+  const effectivePrice = usdcAmount / tokenAmount;
+  // Selling below the signal or buying above it is the bad direction
+  const deviationPercent = side === "sell"
+    ? ((signalPrice - effectivePrice) / signalPrice) * 100
+    : ((effectivePrice - signalPrice) / signalPrice) * 100;
+  const deferKey = tokenAddress.toLowerCase();
+  if (deviationPercent <= config.maxPriceDeviationPercent) {
+    protectiveDeferredSince.delete(deferKey);
+    return null;
+  }
+
+  let sellsAnywayAt: number | undefined;
+  if (check.protective && side === "sell") {
+    const onChainPrice = await freshOnChainPrice(tokenAddress, check.pairAddress);
+    const onChainDeviation = onChainPrice ? ((onChainPrice - effectivePrice) / onChainPrice) * 100 : undefined;
+    if (onChainDeviation !== undefined && onChainDeviation <= config.maxPriceDeviationPercent) {
+      logger.info(
+        { token: tokenAddress, signalPrice, onChainPrice, effectivePrice },
+        "Quote agrees with the on-chain price — protective sell goes ahead"
+      );
+      protectiveDeferredSince.delete(deferKey);
+      return null;
+    }
+
+    const now = Date.now();
+    const since = protectiveDeferredSince.get(deferKey) ?? now;
+    protectiveDeferredSince.set(deferKey, since);
+    sellsAnywayAt = since + config.priceDeviationMaxDeferSec * 1000;
+    if (now >= sellsAnywayAt) {
+      logger.warn(
+        { token: tokenAddress, signalPrice, onChainPrice, effectivePrice, deferredMs: now - since },
+        "Protective sell deferred too long — selling despite the price deviation"
+      );
+      protectiveDeferredSince.delete(deferKey);
+      return null;
+    }
+  }
+
+  logger.warn(
+    { token: tokenAddress, side, signalPrice, effectivePrice, deviationPercent: deviationPercent.toFixed(1) },
+    "Quote deviates from signal price — swap refused"
+  );
+
+  const alertKey = `${side}:${tokenAddress.toLowerCase()}`;
+  const lastAlert = lastDeviationAlert.get(alertKey) ?? 0;
+  if (Date.now() - lastAlert >= DEVIATION_ALERT_COOLDOWN_MS) {
+    lastDeviationAlert.set(alertKey, Date.now());
+    try {
+      // Imported lazily — the bot imports this module
+      const { notifyPriceDeviation } = await import("../telegram/bot.js");
+      const symbol = await getTokenSymbol(tokenAddress).catch(() => tokenAddress.slice(0, 10));
+      await notifyPriceDeviation(symbol, tokenAddress, side, signalPrice, effectivePrice, deviationPercent, sellsAnywayAt);
+    } catch (err) {
+      logger.error({ err }, "Failed to send price-deviation alert");
+    }
+  }
+
+  return `Price deviation ${deviationPercent.toFixed(1)}% exceeds ${config.maxPriceDeviationPercent}% ` +
+    `(signal $${signalPrice}, quote $${effectivePrice})`;
+}
+
+/** Spot price read straight from the token's pinned pair or deepest pool, or null */
+async function freshOnChainPrice(tokenAddress: Address, pairAddress?: string): Promise<number | null> {
+  try {
+    const quotes = pairAddress
+      ? await onChainSource.getPairQuotes!([{ token: tokenAddress, pairAddress: pairAddress as Address }])
+      : await onChainSource.getQuotes([tokenAddress]);
+    return quotes.get(tokenAddress.toLowerCase())?.priceUsd ?? null;
+  } catch (err) {
+    logger.warn({ err, token: tokenAddress }, "On-chain re-check of a protective sell failed");
+    return null;
+  }
+}
+
 // ── Public API ─────────────────────────────────────────────────────
 
 /**
@@ -162,11 +309,13 @@ export async function getSwapPrice(
  *
  * @param tokenAddress - The token to buy
  * @param usdcAmount - Amount of USDC to spend (human-readable, e.g. "50" for $50)
+ * @param priceCheck - Signal price the quote must agree with
  * @returns SwapResult with tx hash and amounts
  */
 export async function buyToken(
   tokenAddress: Address,
-  usdcAmount: string
+  usdcAmount: string,
+  priceCheck: PriceCheck = {}
 ): Promise<SwapResult> {
   const sellAmountRaw = parseUnits(usdcAmount, USDC_DECIMALS);
   const taker = getWalletAddress();
@@ -180,6 +329,8 @@ export async function buyToken(
     logger.info("DRY RUN — skipping actual swap execution");
     try {
       const priceRes = await fetchPrice(USDC_ADDRESS, tokenAddress, sellAmountRaw.toString(), taker);
+      const deviation = await checkPriceDeviation("buy", tokenAddress, priceRes, priceCheck);
+      if (deviation) return { success: false, error: deviation, deferred: true };
       return {
         success: true,
         buyAmount: priceRes.buyAmount,
@@ -193,6 +344,8 @@ export async function buyToken(
   try {
     // 1. Get quote
     const quote = await fetchQuote(USDC_ADDRESS, tokenAddress, sellAmountRaw.toString(), taker);
+    const deviation = await checkPriceDeviation("buy", tokenAddress, quote, priceCheck);
+    if (deviation) return { success: false, error: deviation, deferred: true };
 
     // 2. Ensure USDC allowance — use issues.allowance.spender or allowanceTarget
     const spender = (quote.issues.allowance?.spender ?? quote.allowanceTarget) as Address | null;
@@ -246,11 +399,13 @@ export async function buyToken(
  *
  * @param tokenAddress - The token to sell
  * @param amount - Amount of token to sell (raw, in token's smallest unit)
+ * @param priceCheck - Signal price the quote must agree with
  * @returns SwapResult with tx hash and amounts
  */
 export async function sellToken(
   tokenAddress: Address,
-  amount: bigint
+  amount: bigint,
+  priceCheck: PriceCheck = {}
 ): Promise<SwapResult> {
   const taker = getWalletAddress();
 
@@ -263,6 +418,8 @@ export async function sellToken(
     logger.info("DRY RUN — skipping actual sell execution");
     try {
       const priceRes = await fetchPrice(tokenAddress, USDC_ADDRESS, amount.toString(), taker);
+      const deviation = await checkPriceDeviation("sell", tokenAddress, priceRes, priceCheck);
+      if (deviation) return { success: false, error: deviation, deferred: true };
       return {
         success: true,
         buyAmount: priceRes.buyAmount,
@@ -276,6 +433,8 @@ export async function sellToken(
   try {
     // 1. Get quote
     const quote = await fetchQuote(tokenAddress, USDC_ADDRESS, amount.toString(), taker);
+    const deviation = await checkPriceDeviation("sell", tokenAddress, quote, priceCheck);
+    if (deviation) return { success: false, error: deviation, deferred: true };
 
     // 2. Ensure token allowance
     const spender = (quote.issues.allowance?.spender ?? quote.allowanceTarget) as Address | null;
@@ -330,6 +489,7 @@ export async function sellToken(
  */
 export async function sellAllToken(
   tokenAddress: Address,
+  priceCheck: PriceCheck = {},
   maxRetries = 4
 ): Promise<SwapResult> {
   const { getTokenBalance } = await import("../chain/wallet.js");
@@ -339,6 +499,69 @@ export async function sellAllToken(
     return { success: false, error: "Zero token balance" };
   }
 
+  return sellWithRetry(tokenAddress, balance, priceCheck, maxRetries);
+}
+
+/**
+ * Sell a specific raw amount of a token back to USDC (capped at the wallet balance).
+ * Used for partial exits such as take-profit ladders.
+ * Retries up to `maxRetries` times with increasing delays on failure.
+ */
+export async function sellTokenAmount(
+  tokenAddress: Address,
+  amount: bigint,
+  priceCheck: PriceCheck = {},
+  maxRetries = 4
+): Promise<SwapResult> {
+  const { getTokenBalance } = await import("../chain/wallet.js");
+  const balance = await getTokenBalance(tokenAddress);
+
+  if (balance === 0n) {
+    return { success: false, error: "Zero token balance" };
+  }
+
+  const sellAmount = amount < balance ? amount : balance;
+  if (sellAmount <= 0n) {
+    return { success: false, error: "Sell amount is zero" };
+  }
+
+  return sellWithRetry(tokenAddress, sellAmount, priceCheck, maxRetries);
+}
+
+/**
+ * Sell a percentage of the current wallet balance of a token back to USDC.
+ * Used for scale-out exits such as tiered stop-losses.
+ * Retries up to `maxRetries` times with increasing delays on failure.
+ */
+export async function sellTokenPercent(
+  tokenAddress: Address,
+  percent: number,
+  priceCheck: PriceCheck = {},
+  maxRetries = 4
+): Promise<SwapResult> {
+  const { getTokenBalance } = await import("../chain/wallet.js");
+  const balance = await getTokenBalance(tokenAddress);
+
+  if (balance === 0n) {
+    return { success: false, error: "Zero token balance" };
+  }
+
+  // Basis points keep fractional percents (e.g. 12.5%) exact in bigint math
+  const bps = BigInt(Math.round(Math.min(Math.max(percent, 0), 100) * 100));
+  const sellAmount = (balance * bps) / 10_000n;
+  if (sellAmount <= 0n) {
+    return { success: false, error: "Sell amount is zero" };
+  }
+
+  return sellWithRetry(tokenAddress, sellAmount, priceCheck, maxRetries);
+}
+
+async function sellWithRetry(
+  tokenAddress: Address,
+  amount: bigint,
+  priceCheck: PriceCheck,
+  maxRetries: number
+): Promise<SwapResult> {
   let lastError = "Unknown error";
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -351,8 +574,10 @@ export async function sellAllToken(
       await new Promise((r) => setTimeout(r, delayMs));
     }
 
-    const result = await sellToken(tokenAddress, balance);
+    const result = await sellToken(tokenAddress, amount, priceCheck);
     if (result.success) return result;
+    // A bad quote won't fix itself in a few seconds — leave it to the next tick
+    if (result.deferred) return result;
 
     lastError = result.error ?? "Unknown error";
     logger.error({ attempt, maxRetries, error: lastError }, "Sell swap attempt failed");
@@ -1,4 +1,5 @@
-import { Bot, type Context } from "grammy";
+import { randomBytes } from "node:crypto";
+import { Bot, InlineKeyboard, type Context } from "grammy";
 import { formatUnits, type Address } from "viem";
 import { config, USDC_DECIMALS } from "../config/index.js";
 import {
@@ -6,29 +7,70 @@ import {
   getUsdcBalance,
   getUsdcBalanceFormatted,
   getWalletAddress,
+  getTokenBalance,
 } from "../chain/wallet.js";
 import {
   getPositions,
   getPosition,
   getHistory,
-  isTradingPaused,
-  setPaused,
+  getPauseMode,
+  setPauseMode,
+  setMonitorActive,
   forceSell,
   forceSellByAddress,
   addToBlacklist,
   getMonitors,
   getActiveMonitors,
+  getMonitor,
+  monitorExpiry,
+  pinnedPairs,
   addMonitor,
+  updateMonitor,
   removeMonitor,
   clearAllMonitors,
   type MonitoredToken,
-  type MonitorType,
+  type PauseMode,
+  type TakeProfitRung,
+  type StopTier,
   type TradeHistoryEntry,
+  type WatchAlert,
+  getWatchlist,
+  getWatchEntry,
+  addWatchAlerts,
+  setWatchAlerts,
+  removeWatchEntry,
 } from "../positions/manager.js";
 import { buyToken } from "../swap/executor.js";
-import { getTokenInfo } from "../scanner/dexscreener.js";
+import { getTokenQuotes, getCandles, isCandleInterval, CANDLE_INTERVAL_MS } from "../pricing/index.js";
+import { getTokenInfo, lookupTokenInfo, getTokenPairs, getDexScreenerStats, type TokenInfo } from "../scanner/dexscreener.js";
+import { getStrategies, strategyFor, strategySupports } from "../strategies/index.js";
+import type { RuleVariables } from "../strategies/expression.js";
+import {
+  escapeHtml,
+  formatConfirmRule,
+  formatDuration,
+  formatLadder,
+  formatPrice,
+  formatStopTiers,
+  formatUsd,
+  parseExpiryArg,
+  parseStopLossArg,
+  parseTakeProfitArg,
+  resolveStopLoss,
+  timeSince,
+  formatSparkline,
+  timeUntil,
+} from "./format.js";
 import { logger } from "../utils/logger.js";
 
+// ── Display helpers ────────────────────────────────────────────────
+
+const PAUSE_LABELS: Record<PauseMode, string> = {
+  none: "🟢 Active",
+  trading: "⏸️ Trading paused (alerts on)",
+  all: "⏸️ Paused",
+};
+
 // ── Bot instance ───────────────────────────────────────────────────
 
 let bot: Bot;
@@ -58,6 +100,9 @@ export function createBot(): Bot {
     const monitorLine = monitors.length > 0
       ? `\n\n📡 <b>Active monitors:</b> ${monitors.map((m) => m.symbol).join(", ")}`
       : "\n\nNo active monitors.";
+    const strategyCommandLines = getStrategies()
+      .flatMap((st) => (st.command ? [`/${st.command.name} ${escapeHtml(st.command.usage)} — ${st.command.description}\n`] : []))
+      .join("");
 
     await ctx.reply(
       `🐾 <b>OpenClaw Trader</b> is running!${monitorLine}\n\n` +
@@ -65,18 +110,30 @@ export function createBot(): Bot {
         `Send a message in this format to start monitoring:\n` +
         `<code>&lt;contract_address&gt; &lt;stop_loss_price&gt;</code>\n\n` +
         `<b>Example:</b>\n` +
-        `<code>0x1234...abcd 0.005</code>\n\n` +
+        `<code>0x1234...abcd 0.005</code> or <code>0x1234...abcd -15%</code>\n` +
+        `Add a take-profit for an OCO bracket: <code>0x1234...abcd -15% +40%</code>\n\n` +
         `<b>Commands:</b>\n` +
-        `/simple &lt;address&gt; &lt;stop-loss&gt; &lt;notify%&gt; — Monitor with custom notify interval\n` +
-        `/buyback &lt;address&gt; &lt;notify%&gt; &lt;usdc&gt; &lt;buyback%&gt; — Monitor + auto buy on dips\n` +
+        strategyCommandLines +
+        `/rebase &lt;address&gt; — Re-base a % stop-loss on the current price\n` +
+        `/breakeven &lt;address&gt; [buffer%|off] — Move the stop to entry at the first milestone\n` +
+        `/drawdown &lt;address&gt; &lt;percent%&gt; [entry|high] — Alert (no sell) on every further -X% drop\n` +
+        `/confirm &lt;address&gt; &lt;ticks|seconds s|off&gt; — Require a sustained breach before stop-loss sells\n` +
+        `/expire &lt;address&gt; &lt;72h|3d|date|off&gt; [sell|notify] — Close out a monitor on schedule\n` +
+        `/ladder &lt;address&gt; &lt;gain%:sell%&gt;... — Take-profit ladder with partial sells\n` +
+        `/stoptiers &lt;address&gt; &lt;price:sell%&gt;... — Scale out of the stop-loss in tiers\n` +
+        `/watch &lt;address&gt; &lt;price&gt;... — Price alerts for a token you don't hold (no trading)\n` +
+        `/unwatch &lt;address&gt; [price] — Remove a watched token or one of its levels\n` +
+        `/watchlist — Watched tokens and their pending alerts\n` +
+        `/chart &lt;address&gt; [1m|5m|1h] — Recorded price candles vs. the stop and take-profit\n` +
+        `/pair &lt;address&gt; [pair|auto] — Price a monitor from one specific DEX pair\n` +
         `/status — Overview (balances, monitors)\n` +
         `/monitors — List all active monitors\n` +
         `/balance — ETH + USDC balances\n` +
         `/history — Last 10 trades\n` +
         `/stop — Stop all monitors (or /stop &lt;address&gt; for one)\n` +
         `/sell &lt;address&gt; — Force-sell a token\n` +
-        `/pause — Pause all monitoring\n` +
-        `/resume — Resume monitoring`,
+        `/pause — Pause all monitoring (/pause trading keeps alerts, /pause &lt;address&gt; for one)\n` +
+        `/resume — Resume monitoring (or /resume &lt;address&gt; for one)`,
       { parse_mode: "HTML" }
     );
   });
@@ -90,41 +147,73 @@ export function createBot(): Bot {
   bot.command("sell", handleSell);
   bot.command("stop", handleStop);
   bot.command("stopall", handleStopAll);
-  bot.command("simple", handleSimple);
-  bot.command("buyback", handleBuyback);
+  bot.command("ladder", handleLadder);
+  bot.command("stoptiers", handleStopTiers);
+  bot.command("rebase", handleRebase);
+  bot.command("confirm", handleConfirm);
+  bot.command("breakeven", handleBreakEven);
+  bot.command("drawdown", handleDrawdown);
+  bot.command("expire", handleExpire);
+  bot.command("watch", handleWatch);
+  bot.command("unwatch", handleUnwatch);
+  bot.command("watchlist", handleWatchlist);
+  bot.command("chart", handleChart);
+  bot.command("pair", handlePair);
+  bot.callbackQuery(PAIR_CALLBACK, handlePairChoice);
+
+  // Each strategy declares the command that creates its monitors
+  for (const strategy of getStrategies()) {
+    if (strategy.command) bot.command(strategy.command.name, strategy.command.handler);
+  }
 
-  // ── Text message handler: parse "<address> <stop_loss_price>" ──
+  // ── Text message handler: parse "<address> <stop_loss_price> [take_profit]" ──
   bot.on("message:text", async (ctx) => {
     const text = ctx.message.text?.trim() ?? "";
     if (text.startsWith("/")) return;
 
-    // Expected format: <contract_address> <stop_loss_price>
-    const match = text.match(/^(0x[a-fA-F0-9]{40})\s+([\d.]+)$/);
+    // Expected format: <contract_address>[@pair_address] <stop_loss_price | -percent%> [take_profit_price | +percent%]
+    const match = text.match(/^(0x[a-fA-F0-9]{40})(?:@(0x[a-fA-F0-9]{40}))?\s+(-?[\d.]+%?)(?:\s+(\+?[\d.]+%?))?$/);
     if (!match) {
       await ctx.reply(
         `❌ Invalid format.\n\n` +
           `Please send in this format:\n` +
-          `<code>&lt;contract_address&gt; &lt;stop_loss_price&gt;</code>\n\n` +
-          `Example:\n<code>0x1234abcd...5678 0.005</code>`,
+          `<code>&lt;contract_address&gt; &lt;stop_loss_price&gt;</code>\n` +
+          `or <code>&lt;contract_address&gt; -&lt;percent&gt;%</code>\n` +
+          `Add a third number for a take-profit (OCO bracket).\n` +
+          `Append <code>@&lt;pair_address&gt;</code> to the token to price from one specific pair.\n\n` +
+          `Examples:\n<code>0x1234abcd...5678 0.005</code>\n<code>0x1234abcd...5678 -15%</code>\n` +
+          `<code>0x1234abcd...5678 -15% +40%</code>`,
         { parse_mode: "HTML" }
       );
       return;
     }
 
     const contractAddress = match[1];
-    const stopLossPrice = parseFloat(match[2]);
+    const pairAddress = match[2];
+    const stopInput = parseStopLossArg(match[3]);
+    const takeProfitInput = match[4] ? parseTakeProfitArg(match[4]) : undefined;
 
-    if (isNaN(stopLossPrice) || stopLossPrice <= 0) {
-      await ctx.reply("❌ Invalid stop-loss price. Please provide a positive number.");
+    if (!stopInput) {
+      await ctx.reply("❌ Invalid stop-loss. Provide a positive price (0.005) or a percent below current price (-15%).");
+      return;
+    }
+    if (takeProfitInput === null) {
+      await ctx.reply("❌ Invalid take-profit. Provide a positive price (0.02) or a percent above current price (+40%).");
       return;
     }
 
     // Fetch token info
     await ctx.reply("⏳ Looking up token...");
-    const info = await getTokenInfo(contractAddress);
+    const info = await lookupTokenInfo(contractAddress, pairAddress);
     if (!info) {
+      await ctx.reply("❌ Could not reach DexScreener to look up the token. Try again later.");
+      return;
+    }
+    if (info === "not-found") {
       await ctx.reply(
-        `❌ Could not find token <code>${contractAddress}</code> on Base.\nPlease verify the contract address.`,
+        pairAddress
+          ? `❌ <code>${pairAddress}</code> is not a Base pair of <code>${contractAddress}</code>.\nSee /pair for the token's pairs.`
+          : `❌ Could not find token <code>${contractAddress}</code> on Base.\nPlease verify the contract address.`,
         { parse_mode: "HTML" }
       );
       return;
@@ -135,6 +224,8 @@ export function createBot(): Bot {
       return;
     }
 
+    const { stopLossPrice, stopLossPercent } = resolveStopLoss(stopInput, info.priceUsd);
+
     if (stopLossPrice >= info.priceUsd) {
       await ctx.reply(
         `⚠️ Stop-loss price ($${stopLossPrice}) is above or equal to current price ($${info.priceUsd.toPrecision(6)}).\n` +
@@ -143,29 +234,51 @@ export function createBot(): Bot {
       return;
     }
 
-    // Add the monitor
+    const takeProfitPrice = takeProfitInput
+      ? takeProfitInput.kind === "percent"
+        ? info.priceUsd * (1 + takeProfitInput.value / 100)
+        : takeProfitInput.value
+      : undefined;
+
+    if (takeProfitPrice !== undefined && takeProfitPrice <= info.priceUsd) {
+      await ctx.reply(
+        `⚠️ Take-profit price ($${formatPrice(takeProfitPrice)}) is at or below current price ($${info.priceUsd.toPrecision(6)}).\n` +
+        `This would trigger an immediate sell. Please set a take-profit above current price.`,
+      );
+      return;
+    }
+
+    // Add the monitor (a take-profit makes it an OCO bracket)
     const monitor: MonitoredToken = {
+      ...(takeProfitPrice !== undefined ? { type: "oco" as const, takeProfitPrice } : {}),
       address: info.address,
       symbol: info.symbol,
       name: info.name,
       stopLossPrice,
+      stopLossPercent,
       entryPrice: info.priceUsd,
       lastNotifiedMilestone: 0,
       active: true,
       dexScreenerUrl: info.dexScreenerUrl,
+      ...(pairAddress ? { pairAddress: info.pairAddress } : {}),
       addedAt: Date.now(),
     };
 
     addMonitor(monitor);
 
     const slPercent = ((info.priceUsd - stopLossPrice) / info.priceUsd * 100).toFixed(1);
+    const targetLine = takeProfitPrice !== undefined
+      ? `🎯 Take-profit: $${formatPrice(takeProfitPrice)} (${((takeProfitPrice - info.priceUsd) / info.priceUsd * 100).toFixed(1)}% above current)\n` +
+        `🔀 OCO: whichever side hits first sells everything\n`
+      : `📊 Milestones: every +25% from entry\n`;
 
     await ctx.reply(
       `✅ <b>Monitoring ${info.symbol}</b>\n\n` +
         `📍 Address: <code>${info.address}</code>\n` +
+        (pairAddress ? `📌 Pinned pair: <code>${info.pairAddress}</code>\n` : "") +
         `💵 Current price: $${info.priceUsd.toPrecision(6)}\n` +
-        `🛑 Stop-loss: $${stopLossPrice} (${slPercent}% below current)\n` +
-        `📊 Milestones: every +25% from entry\n` +
+        `🛑 Stop-loss: $${formatPrice(stopLossPrice)} (${slPercent}% below current)\n` +
+        targetLine +
         `⏱️ Checking every ${config.monitorIntervalSec}s\n\n` +
         `${config.dryRun ? "🔧 <b>DRY RUN MODE</b> — sells won't execute" : "🔴 <b>LIVE MODE</b> — will auto-sell on stop-loss"}`,
       { parse_mode: "HTML" }
@@ -222,19 +335,275 @@ export async function notifyStopLossHit(
   );
 }
 
+/** Notify about an emergency exit triggered by a pool liquidity drain */
+export async function notifyLiquidityExit(
+  symbol: string,
+  peakLiquidityUsd: number,
+  liquidityUsd: number,
+  dropPercent: number,
+  windowSec: number,
+  price: number,
+  txHash: string,
+  sellSuccess: boolean,
+  noBalance = false
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  const status = noBalance
+    ? "ℹ️ No tokens in wallet — monitor removed"
+    : sellSuccess
+      ? "✅ Sold everything"
+      : "❌ Sell FAILED — will retry";
+  await notify(
+    `🚨 <b>LIQUIDITY DRAIN EXIT: ${symbol}</b>\n\n` +
+      `💧 Pool liquidity: $${formatUsd(peakLiquidityUsd)} → $${formatUsd(liquidityUsd)} ` +
+      `(-${dropPercent.toFixed(1)}% within ${Math.round(windowSec / 60)}m)\n` +
+      `💵 Last price print: $${price.toPrecision(6)}\n` +
+      `⚠️ Exit was liquidity-driven (possible rug) — stop-loss was not hit\n` +
+      `${status}` +
+      basescanLink,
+    "HTML"
+  );
+}
+
+/** Heads-up on the first tick below a stop-loss that needs confirmation */
+export async function notifyStopBreach(
+  symbol: string,
+  currentPrice: number,
+  stopLossPrice: number,
+  rule: string
+): Promise<void> {
+  await notify(
+    `⚠️ <b>STOP-LOSS BREACHED: ${symbol}</b>\n\n` +
+      `💵 Price: $${currentPrice.toPrecision(6)}\n` +
+      `🎯 Stop-loss: $${formatPrice(stopLossPrice)}\n` +
+      `⏳ Waiting for confirmation (${rule}) before selling`,
+    "HTML"
+  );
+}
+
+/** Warn that a swap was refused because its quote disagrees with the signal price */
+export async function notifyPriceDeviation(
+  symbol: string,
+  tokenAddress: string,
+  side: "buy" | "sell",
+  signalPrice: number,
+  quotePrice: number,
+  deviationPercent: number,
+  sellsAnywayAt?: number
+): Promise<void> {
+  const retry = sellsAnywayAt !== undefined
+    ? `🛡 Quote also disagrees with the on-chain price — retrying, sells anyway in ${timeUntil(sellsAnywayAt)}\n`
+    : `🛡 Pool may be manipulated or broken — will retry on the next check\n`;
+  await notify(
+    `⚠️ <b>${side.toUpperCase()} REFUSED: ${escapeHtml(symbol)}</b>\n\n` +
+      `📡 Signal price: $${formatPrice(signalPrice)}\n` +
+      `💱 Quote would fill at: $${formatPrice(quotePrice)}\n` +
+      `📐 ${deviationPercent.toFixed(1)}% worse (limit ${config.maxPriceDeviationPercent}%)\n` +
+      retry +
+      `<code>${tokenAddress}</code>`,
+    "HTML"
+  );
+}
+
 /** Notify about a price milestone */
 export async function notifyMilestone(
   symbol: string,
   currentPrice: number,
   entryPrice: number,
-  milestonePercent: number
+  milestonePercent: number,
+  extra?: string
 ): Promise<void> {
   const gainPercent = ((currentPrice - entryPrice) / entryPrice * 100).toFixed(1);
   await notify(
     `🚀 <b>${symbol} +${milestonePercent}% MILESTONE</b>\n\n` +
       `💵 Current price: $${currentPrice.toPrecision(6)}\n` +
       `📈 Entry price: $${entryPrice.toPrecision(6)}\n` +
-      `📊 Gain: +${gainPercent}%`,
+      `📊 Gain: +${gainPercent}%` +
+      (extra ? `\n${extra}` : ""),
+    "HTML"
+  );
+}
+
+/** Notify that one side of an OCO bracket triggered */
+export async function notifyOcoExit(
+  symbol: string,
+  side: "take-profit" | "stop-loss",
+  currentPrice: number,
+  triggerPrice: number,
+  changePercent: number,
+  txHash: string,
+  sellSuccess: boolean,
+  noBalance = false
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  const title = side === "take-profit" ? "🎯 <b>OCO TAKE-PROFIT" : "🛑 <b>OCO STOP-LOSS";
+  const status = noBalance
+    ? "ℹ️ No tokens in wallet — monitor removed"
+    : sellSuccess
+      ? "✅ Sold everything — the other side is cancelled"
+      : "❌ Sell FAILED — will retry";
+  await notify(
+    `${title}: ${symbol}</b>\n\n` +
+      `💵 Price: $${currentPrice.toPrecision(6)}\n` +
+      `${side === "take-profit" ? "🎯 Take-profit" : "🛑 Stop-loss"} was: $${formatPrice(triggerPrice)}\n` +
+      `📊 Change from entry: ${changePercent >= 0 ? "+" : ""}${changePercent.toFixed(1)}%\n` +
+      `${status}` +
+      basescanLink,
+    "HTML"
+  );
+}
+
+/** Notify that a rule monitor's condition held and its action ran */
+export async function notifyRuleFired(
+  symbol: string,
+  expression: string,
+  action: string,
+  vars: RuleVariables,
+  txHash: string,
+  success: boolean,
+  noBalance: boolean,
+  rulesRemaining: number
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  const status = action === "notify"
+    ? "🔔 Alert only — nothing traded"
+    : noBalance
+      ? "ℹ️ No tokens in wallet — rule marked as fired"
+      : success
+        ? `✅ ${action} executed`
+        : `❌ ${action} FAILED — monitor paused, /resume it to retry`;
+  const pool = [
+    vars.liquidityUsd !== undefined ? `💧 Liquidity: $${formatUsd(vars.liquidityUsd)}` : "",
+    vars.volume24h !== undefined ? `📊 24h volume: $${formatUsd(vars.volume24h)}` : "",
+  ].filter(Boolean).join(" | ");
+  const footer = rulesRemaining > 0
+    ? `📐 ${rulesRemaining} rule(s) still armed`
+    : "⏹️ No rules left — monitor removed";
+  await notify(
+    `📐 <b>RULE: ${symbol}</b>\n\n` +
+      `🧩 ${escapeHtml(action)} if <code>${escapeHtml(expression)}</code>\n` +
+      `💵 Price: $${vars.price.toPrecision(6)} (${vars.changePct >= 0 ? "+" : ""}${vars.changePct.toFixed(1)}% from entry)\n` +
+      (pool ? `${pool}\n` : "") +
+      `⏱️ Held: ${vars.heldHours.toFixed(1)}h\n` +
+      `${status}\n` +
+      (success || noBalance ? footer : "") +
+      basescanLink,
+    "HTML"
+  );
+}
+
+/** Notify that a monitor reached its maximum holding time / expiry */
+export async function notifyExpiry(
+  symbol: string,
+  action: "sell" | "notify",
+  heldMs: number,
+  currentPrice: number,
+  changePercent: number,
+  txHash: string,
+  sellSuccess: boolean,
+  noBalance = false
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  const status = action === "notify"
+    ? "⏸️ Monitor deactivated — nothing sold. /resume &lt;address&gt; to keep watching it."
+    : noBalance
+      ? "ℹ️ No tokens in wallet — monitor removed"
+      : sellSuccess
+        ? "✅ Sold everything — monitor removed"
+        : "❌ Sell FAILED — will retry";
+  await notify(
+    `⌛ <b>EXPIRED: ${symbol}</b>\n\n` +
+      `⏱️ Held for: ${formatDuration(heldMs)}\n` +
+      `💵 Price: $${currentPrice.toPrecision(6)}\n` +
+      `📊 Change from entry: ${changePercent >= 0 ? "+" : ""}${changePercent.toFixed(1)}%\n` +
+      `${status}` +
+      basescanLink,
+    "HTML"
+  );
+}
+
+/** Notify about a downside move — alert only, nothing is sold */
+export async function notifyDrawdown(
+  symbol: string,
+  address: string,
+  currentPrice: number,
+  referencePrice: number,
+  reference: "entry" | "high",
+  drawdownPercent: number,
+  stopLossPrice: number
+): Promise<void> {
+  const actualDrop = ((referencePrice - currentPrice) / referencePrice * 100).toFixed(1);
+  const stopLine = stopLossPrice > 0
+    ? `🛑 Stop-loss: $${stopLossPrice.toPrecision(6)} (${((currentPrice - stopLossPrice) / currentPrice * 100).toFixed(1)}% below current)\n`
+    : "";
+  await notify(
+    `⚠️ <b>${symbol} -${drawdownPercent}% FROM ${reference.toUpperCase()}</b>\n\n` +
+      `💵 Current price: $${currentPrice.toPrecision(6)}\n` +
+      `${reference === "high" ? "📈 High" : "📍 Entry"}: $${referencePrice.toPrecision(6)}\n` +
+      `📉 Drawdown: -${actualDrop}%\n` +
+      stopLine +
+      `ℹ️ Alert only — nothing was sold. <code>/sell ${address}</code> to exit now.`,
+    "HTML"
+  );
+}
+
+/** Notify about a take-profit rung execution */
+export async function notifyTakeProfit(
+  symbol: string,
+  currentPrice: number,
+  entryPrice: number,
+  rungGainPercent: number,
+  sellLabel: string,
+  rungsRemaining: number,
+  txHash: string,
+  success: boolean,
+  noBalance = false
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  const status = noBalance
+    ? "ℹ️ No tokens in wallet — rung skipped"
+    : success
+      ? `✅ Sold ${sellLabel}`
+      : "❌ Sell FAILED — will retry";
+  const gainPercent = ((currentPrice - entryPrice) / entryPrice * 100).toFixed(1);
+  await notify(
+    `🎯 <b>TAKE-PROFIT +${rungGainPercent}%: ${symbol}</b>\n\n` +
+      `💵 Current price: $${currentPrice.toPrecision(6)}\n` +
+      `📈 Entry price: $${entryPrice.toPrecision(6)}\n` +
+      `📊 Gain: +${gainPercent}%\n` +
+      `${status}\n` +
+      `🪜 Rungs remaining: ${rungsRemaining}` +
+      basescanLink,
+    "HTML"
+  );
+}
+
+/** Notify about one tier of a tiered stop-loss */
+export async function notifyStopTier(
+  symbol: string,
+  currentPrice: number,
+  tierPrice: number,
+  sellLabel: string,
+  tiersRemaining: number,
+  lossPercent: number,
+  txHash: string,
+  success: boolean,
+  noBalance = false
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  const status = noBalance
+    ? "ℹ️ No tokens in wallet — tier skipped"
+    : success
+      ? `✅ Sold ${sellLabel}`
+      : "❌ Sell FAILED — will retry";
+  const footer = tiersRemaining > 0 ? `🪜 Tiers remaining: ${tiersRemaining}` : "⏹️ Last tier filled — monitor removed";
+  await notify(
+    `🛑 <b>STOP TIER $${formatPrice(tierPrice)}: ${symbol}</b>\n\n` +
+      `💵 Current price: $${currentPrice.toPrecision(6)}\n` +
+      `📉 Change from entry: ${lossPercent >= 0 ? "+" : ""}${lossPercent.toFixed(1)}%\n` +
+      `${status}\n` +
+      (success || noBalance ? footer : "") +
+      basescanLink,
     "HTML"
   );
 }
@@ -248,15 +617,18 @@ export async function notifyBuyback(
   usdcSpent: number,
   usdcRemaining: number,
   txHash: string,
-  success: boolean
+  success: boolean,
+  avgCostPrice?: number
 ): Promise<void> {
   const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
   const status = success ? "✅ Buy executed" : "❌ Buy FAILED";
+  const avgLine = avgCostPrice ? `⚖️ Average cost: $${avgCostPrice.toPrecision(6)}\n` : "";
   await notify(
     `🔄 <b>BUYBACK: ${symbol}</b>\n\n` +
       `📉 Drop from entry: -${dropPercent.toFixed(1)}%\n` +
       `💵 Current price: $${currentPrice.toPrecision(6)}\n` +
       `📈 Entry price: $${entryPrice.toPrecision(6)}\n` +
+      avgLine +
       `${status}\n` +
       `💰 Spent this buy: $${usdcSpent.toFixed(2)}\n` +
       `💼 Budget remaining: $${usdcRemaining.toFixed(2)}` +
@@ -265,15 +637,180 @@ export async function notifyBuyback(
   );
 }
 
+/** Notify about a buyback monitor's take-profit exit */
+export async function notifyBuybackTakeProfit(
+  symbol: string,
+  currentPrice: number,
+  avgCostPrice: number,
+  gainPercent: number,
+  txHash: string,
+  sellSuccess: boolean,
+  noBalance = false
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  const status = noBalance
+    ? "ℹ️ No tokens in wallet — monitor removed"
+    : sellSuccess
+      ? "✅ Sold everything"
+      : "❌ Sell FAILED — will retry";
+  await notify(
+    `🎯 <b>TAKE-PROFIT: ${symbol}</b>\n\n` +
+      `💵 Current price: $${currentPrice.toPrecision(6)}\n` +
+      `⚖️ Average cost: $${avgCostPrice.toPrecision(6)}\n` +
+      `📊 Gain vs average: +${gainPercent.toFixed(1)}%\n` +
+      `${status}` +
+      basescanLink,
+    "HTML"
+  );
+}
+
+/** Notify about a limit-buy fill (or failure) */
+export async function notifyLimitBuy(
+  symbol: string,
+  currentPrice: number,
+  triggerPrice: number,
+  usdcAmount: number,
+  fillPrice: number,
+  stopLossPrice: number,
+  txHash: string,
+  success: boolean
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  if (!success) {
+    await notify(
+      `❌ <b>LIMIT BUY FAILED: ${symbol}</b>\n\n` +
+        `💵 Price: $${currentPrice.toPrecision(6)} (trigger $${formatPrice(triggerPrice)})\n` +
+        `💰 Amount: $${usdcAmount.toFixed(2)} USDC\n` +
+        `⏸️ Monitor paused — check the logs, then /resume to retry.`,
+      "HTML"
+    );
+    return;
+  }
+  const stopLine = stopLossPrice > 0
+    ? `🛑 Stop-loss: $${stopLossPrice.toPrecision(6)}`
+    : "🛑 No stop-loss set";
+  await notify(
+    `🎯 <b>LIMIT BUY FILLED: ${symbol}</b>\n\n` +
+      `💰 Spent: $${usdcAmount.toFixed(2)} USDC\n` +
+      `💵 Fill price: $${fillPrice.toPrecision(6)} (trigger $${formatPrice(triggerPrice)})\n` +
+      `${stopLine}\n` +
+      `📋 Now monitored as a standard stop-loss monitor` +
+      basescanLink,
+    "HTML"
+  );
+}
+
 /** Notify that buyback budget is exhausted */
 export async function notifyBudgetExhausted(
   symbol: string,
-  totalSpent: number
+  totalSpent: number,
+  kind: "buyback" | "DCA" = "buyback"
 ): Promise<void> {
   await notify(
-    `💸 <b>${symbol} BUYBACK BUDGET EXHAUSTED</b>\n\n` +
+    `💸 <b>${symbol} ${kind.toUpperCase()} BUDGET EXHAUSTED</b>\n\n` +
       `Total spent: $${totalSpent.toFixed(2)} USDC\n` +
-      `No more buybacks will execute. Use /stop to remove this monitor.`,
+      `No more ${kind} buys will execute. Use /stop to remove this monitor.`,
+    "HTML"
+  );
+}
+
+/** Notify about a scheduled DCA buy */
+export async function notifyDcaBuy(
+  symbol: string,
+  price: number,
+  usdcSpent: number,
+  avgCostPrice: number,
+  usdcRemaining: number,
+  buyCount: number,
+  txHash: string,
+  success: boolean
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  if (!success) {
+    await notify(
+      `❌ <b>DCA BUY FAILED: ${symbol}</b>\n\n` +
+        `💰 Amount: $${usdcSpent.toFixed(2)} USDC\n` +
+        `💼 Budget remaining: $${usdcRemaining.toFixed(2)}\n` +
+        `This slot is skipped — the next scheduled buy will run as normal.`,
+      "HTML"
+    );
+    return;
+  }
+  await notify(
+    `🗓️ <b>DCA BUY #${buyCount}: ${symbol}</b>\n\n` +
+      `💰 Spent: $${usdcSpent.toFixed(2)} USDC\n` +
+      `💵 Fill price: $${price.toPrecision(6)}\n` +
+      `⚖️ Average cost: $${avgCostPrice.toPrecision(6)}\n` +
+      `💼 Budget remaining: $${usdcRemaining.toFixed(2)}` +
+      basescanLink,
+    "HTML"
+  );
+}
+
+/** Notify about a grid level buy or sell */
+export async function notifyGridTrade(
+  symbol: string,
+  side: "buy" | "sell",
+  level: number,
+  levelCount: number,
+  levelPrice: number,
+  price: number,
+  usdcAmount: number,
+  txHash: string,
+  success: boolean,
+  profitUsd?: number
+): Promise<void> {
+  const basescanLink = txHash ? `\n🔗 <a href="https://basescan.org/tx/${txHash}">View on BaseScan</a>` : "";
+  if (!success) {
+    const next = side === "buy"
+      ? "The level stays empty until price crosses it again."
+      : "The lot is kept and will be sold on the next cross.";
+    await notify(
+      `❌ <b>GRID ${side.toUpperCase()} FAILED: ${symbol}</b>\n\n` +
+        `📶 Level ${level}/${levelCount} at $${levelPrice.toPrecision(6)}\n` +
+        `💵 Current price: $${price.toPrecision(6)}\n` +
+        next,
+      "HTML"
+    );
+    return;
+  }
+  const amountLine = side === "buy"
+    ? `💰 Spent: $${usdcAmount.toFixed(2)} USDC\n`
+    : `💰 Received: $${usdcAmount.toFixed(2)} USDC\n`;
+  const profitLine = profitUsd !== undefined
+    ? `📊 Lot P&L: ${profitUsd >= 0 ? "+" : "-"}$${Math.abs(profitUsd).toFixed(2)}\n`
+    : "";
+  await notify(
+    `🧮 <b>GRID ${side.toUpperCase()}: ${symbol}</b>\n\n` +
+      `📶 Level ${level}/${levelCount} ${side === "buy" ? "bought" : "sold"} at $${levelPrice.toPrecision(6)}\n` +
+      `💵 ${side === "buy" ? "Fill" : "Current"} price: $${price.toPrecision(6)}\n` +
+      amountLine +
+      profitLine +
+      basescanLink,
+    "HTML"
+  );
+}
+
+/** Notify that a watchlist price level was reached */
+export async function notifyWatchAlert(
+  symbol: string,
+  address: string,
+  alert: WatchAlert,
+  currentPrice: number,
+  dexScreenerUrl: string,
+  pendingAlerts: number
+): Promise<void> {
+  const arrow = alert.direction === "above" ? "⬆️" : "⬇️";
+  const link = dexScreenerUrl ? `\n📊 <a href="${dexScreenerUrl}">View on DexScreener</a>` : "";
+  const remaining = pendingAlerts > 0
+    ? `🔔 ${pendingAlerts} more alert(s) pending`
+    : "✅ No alerts left — removed from watchlist";
+  await notify(
+    `👀 <b>WATCH: ${symbol} ${alert.direction.toUpperCase()} $${formatPrice(alert.price)}</b>\n\n` +
+      `${arrow} Current price: $${currentPrice.toPrecision(6)}\n` +
+      `📍 <code>${address}</code>\n` +
+      remaining +
+      link,
     "HTML"
   );
 }
@@ -327,7 +864,8 @@ async function handleStatus(ctx: Context): Promise<void> {
       getUsdcBalanceFormatted(),
     ]);
     const monitors = getActiveMonitors();
-    const paused = isTradingPaused();
+    const pausedCount = getMonitors().length - monitors.length;
+    const pauseMode = getPauseMode();
 
     let monitorBlock: string;
     if (monitors.length === 0) {
@@ -335,27 +873,27 @@ async function handleStatus(ctx: Context): Promise<void> {
     } else {
       monitorBlock = "📡 <b>Active Monitors:</b>\n" +
         monitors.map((m) => {
-          const monitorType = m.type ?? "standard";
-          const typeIcon = monitorType === "standard" ? "📋" : monitorType === "simple" ? "🔍" : "🔄";
-          if (monitorType === "buyback") {
-            const spent = m.usdcSpent ?? 0;
-            const budget = m.totalUsdcBudget ?? 0;
-            return `  ${typeIcon} <b>${m.symbol}</b> (buyback) — $${spent.toFixed(0)}/$${budget.toFixed(0)} spent`;
-          }
-          const slInfo = m.stopLossPrice > 0
-            ? `SL: $${m.stopLossPrice}`
-            : "no SL";
-          return `  ${typeIcon} <b>${m.symbol}</b> (${monitorType}) — ${slInfo}`;
+          const strategy = strategyFor(m);
+          const summary = escapeHtml(strategy.describe(m).summary);
+          return `  ${strategy.icon} <b>${m.symbol}</b> (${strategy.type}) — ${summary}`;
         }).join("\n") + "\n";
     }
+    if (pausedCount > 0) {
+      monitorBlock += `⏸️ ${pausedCount} paused monitor(s)\n`;
+    }
+    const watched = getWatchlist().length;
+    if (watched > 0) {
+      monitorBlock += `👀 ${watched} watched token(s) — /watchlist\n`;
+    }
 
     await ctx.reply(
       `📊 <b>OpenClaw Status</b>\n\n` +
         `💎 ETH: ${parseFloat(ethBal).toFixed(6)}\n` +
         `💵 USDC: $${parseFloat(usdcBal).toFixed(2)}\n\n` +
         monitorBlock + "\n" +
+        formatPriceFeedHealth() + "\n" +
         `⏱️ Check interval: ${config.monitorIntervalSec}s\n` +
-        `Status: ${paused ? "⏸️ Paused" : "🟢 Active"}\n` +
+        `Status: ${PAUSE_LABELS[pauseMode]}\n` +
         `${config.dryRun ? "🔧 DRY RUN" : "🔴 LIVE"}`,
       { parse_mode: "HTML" }
     );
@@ -365,6 +903,29 @@ async function handleStatus(ctx: Context): Promise<void> {
   }
 }
 
+/** DexScreener client health and the price-source order, for /status */
+function formatPriceFeedHealth(): string {
+  const ds = getDexScreenerStats();
+  let block = `💹 Price sources: ${config.priceSources.join(" → ")}\n`;
+
+  if (ds.lastSuccessAt === undefined && ds.lastError === undefined) {
+    block += `🩺 DexScreener: no requests yet\n`;
+  } else {
+    const lastOk = ds.lastSuccessAt !== undefined ? `last OK ${timeSince(ds.lastSuccessAt)} ago` : "never succeeded";
+    block += `🩺 DexScreener: ${ds.healthy ? "✅ healthy" : "⚠️ failing"} — ${lastOk}\n`;
+    block += `   Cache hits ${(ds.hitRate * 100).toFixed(0)}% · ${ds.budgetUsed}/${ds.budgetPerMinute} req/min`;
+    if (ds.rateLimited > 0) block += ` · ${ds.rateLimited}× 429`;
+    block += "\n";
+    if (!ds.healthy && ds.lastError) {
+      block += `   Last error (${timeSince(ds.lastError.at)} ago): <code>${escapeHtml(ds.lastError.message.slice(0, 200))}</code>\n`;
+    }
+  }
+  if (ds.backoffUntil !== undefined) {
+    block += `   ⏳ Backing off for ${timeUntil(ds.backoffUntil)}\n`;
+  }
+  return block;
+}
+
 async function handleMonitors(ctx: Context): Promise<void> {
   const monitors = getMonitors();
   if (monitors.length === 0) {
@@ -372,33 +933,46 @@ async function handleMonitors(ctx: Context): Promise<void> {
     return;
   }
 
+  const quotes = await getTokenQuotes(monitors.map((m) => m.address as Address), pinnedPairs(monitors));
+
   let msg = "📡 <b>Active Monitors</b>\n\n";
   for (const m of monitors) {
-    const monitorType = m.type ?? "standard";
-    const typeLabel = monitorType === "standard" ? "📋" : monitorType === "simple" ? "🔍" : "🔄";
-    const status = m.active ? "🟢" : "❌";
+    const currentPrice = quotes.get(m.address.toLowerCase())?.priceUsd;
+    const strategy = strategyFor(m);
+    const status = m.active ? "🟢" : "⏸️";
     const held = timeSince(m.addedAt);
 
-    msg += `${typeLabel} <b>${m.symbol}</b> ${status} <i>(${monitorType})</i>\n`;
+    msg += `${strategy.icon} <b>${m.symbol}</b> ${status} <i>(${strategy.type})</i>\n`;
     msg += `   📍 <code>${m.address}</code>\n`;
-    msg += `   💵 Entry: $${m.entryPrice.toPrecision(6)}\n`;
+    if (m.pairAddress) {
+      msg += `   📌 Pinned pair: <a href="${m.dexScreenerUrl ?? ""}">${m.pairAddress.slice(0, 10)}…</a>\n`;
+    }
+    msg += `   💵 Entry: $${m.entryPrice.toPrecision(6)}${currentPrice ? ` | Now: $${currentPrice.toPrecision(6)}` : ""}\n`;
+    for (const line of strategy.describe(m, currentPrice).details) {
+      msg += `   ${escapeHtml(line)}\n`;
+    }
+
+    if (m.breakEvenBufferPercent !== undefined) {
+      const buffer = m.breakEvenBufferPercent > 0 ? `entry +${m.breakEvenBufferPercent}%` : "entry";
+      msg += `   🛡️ Break-even: ${buffer} at first milestone${m.breakEvenApplied ? " ✅ applied" : ""}\n`;
+    }
+
+    if (m.drawdownAlertPercent) {
+      const last = m.lastNotifiedDrawdown ? ` | Last: -${m.lastNotifiedDrawdown}%` : "";
+      msg += `   ⚠️ Drawdown alerts: every -${m.drawdownAlertPercent}% from ${m.drawdownFrom ?? "entry"}${last}\n`;
+    }
 
-    if (m.stopLossPrice > 0) {
-      const slPercent = m.entryPrice > 0
-        ? ((m.entryPrice - m.stopLossPrice) / m.entryPrice * 100).toFixed(1)
-        : "?";
-      msg += `   🛑 SL: $${m.stopLossPrice} (${slPercent}% below)\n`;
+    if ((m.stopConfirmTicks ?? 0) > 1 || (m.stopConfirmSec ?? 0) > 0) {
+      msg += `   ⏳ Confirm: ${formatConfirmRule(m)}\n`;
     }
 
-    const notifyPct = m.notifyPercent ?? 25;
-    msg += `   📊 Notify: every +${notifyPct}% | Last: +${m.lastNotifiedMilestone}%\n`;
+    if (m.takeProfits && m.takeProfits.length > 0) {
+      msg += `   🎯 Ladder: ${formatLadder(m.takeProfits)}\n`;
+    }
 
-    if (monitorType === "buyback") {
-      const spent = m.usdcSpent ?? 0;
-      const budget = m.totalUsdcBudget ?? 0;
-      const remaining = Math.max(0, budget - spent);
-      msg += `   📉 Buyback: $${m.usdcPerBuyback} every -${m.buybackPercent}%\n`;
-      msg += `   💰 Budget: $${spent.toFixed(2)} / $${budget.toFixed(2)} ($${remaining.toFixed(2)} left)\n`;
+    const expiry = monitorExpiry(m);
+    if (expiry !== undefined) {
+      msg += `   ⌛ Expires: ${formatUtc(expiry)} (in ${timeUntil(expiry)}) → ${m.expiryAction ?? "sell"}\n`;
     }
 
     msg += `   ⏱️ Monitoring for: ${held}\n\n`;
@@ -451,14 +1025,58 @@ async function handleHistory(ctx: Context): Promise<void> {
 }
 
 async function handlePause(ctx: Context): Promise<void> {
-  setPaused(true);
-  await ctx.reply("⏸️ Monitoring has been <b>PAUSED</b>. Use /resume to restart.", {
+  const text = ctx.message?.text ?? "";
+  const arg = text.split(/\s+/)[1]?.trim();
+
+  if (arg && /^0x[a-fA-F0-9]{40}$/.test(arg)) {
+    const monitor = setMonitorActive(arg, false);
+    if (!monitor) {
+      await ctx.reply(`❌ No monitor found for <code>${escapeHtml(arg)}</code>`, { parse_mode: "HTML" });
+      return;
+    }
+    await ctx.reply(
+      `⏸️ Monitor <b>${escapeHtml(monitor.symbol)}</b> paused. Use /resume ${monitor.address} to restart it.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  if (arg && arg.toLowerCase() !== "trading" && arg.toLowerCase() !== "all") {
+    await ctx.reply(
+      `<b>Usage:</b>\n` +
+        `<code>/pause</code> — pause everything (no price checks, no trades)\n` +
+        `<code>/pause trading</code> — keep price alerts, but no buys/sells\n` +
+        `<code>/pause &lt;address&gt;</code> — pause a single monitor`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const mode: PauseMode = arg?.toLowerCase() === "trading" ? "trading" : "all";
+  setPauseMode(mode);
+  const detail = mode === "trading"
+    ? "Trading is <b>PAUSED</b> — price alerts continue, no buys or sells will execute."
+    : "Monitoring has been <b>PAUSED</b> — no price checks or trades.";
+  await ctx.reply(`⏸️ ${detail}\nUse /resume to restart.`, {
     parse_mode: "HTML",
   });
 }
 
 async function handleResume(ctx: Context): Promise<void> {
-  setPaused(false);
+  const text = ctx.message?.text ?? "";
+  const arg = text.split(/\s+/)[1]?.trim();
+
+  if (arg) {
+    const monitor = setMonitorActive(arg, true);
+    if (!monitor) {
+      await ctx.reply(`❌ No monitor found for <code>${escapeHtml(arg)}</code>`, { parse_mode: "HTML" });
+      return;
+    }
+    await ctx.reply(`▶️ Monitor <b>${escapeHtml(monitor.symbol)}</b> resumed.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  setPauseMode("none");
   await ctx.reply("▶️ Monitoring has been <b>RESUMED</b>.", { parse_mode: "HTML" });
 }
 
@@ -507,7 +1125,8 @@ async function handleSell(ctx: Context): Promise<void> {
     (m) => m.address.toLowerCase() === tokenAddress.toLowerCase()
   );
   const symbol = monitor?.symbol ?? "token";
-  const result = await forceSellByAddress(tokenAddress, symbol, "manual");
+  // User-initiated — sell at whatever the quote says
+  const result = await forceSellByAddress(tokenAddress, symbol, "manual", { skip: true });
   if (result.success) {
     // Also remove the monitor
     removeMonitor(tokenAddress);
@@ -525,7 +1144,7 @@ async function handleStop(ctx: Context): Promise<void> {
   const parts = text.split(/\s+/);
   if (parts.length < 2) {
     // No address provided — stop ALL monitors
-    const monitors = getActiveMonitors();
+    const monitors = getMonitors();
     if (monitors.length === 0) {
       await ctx.reply("📭 No active monitors to stop.");
       return;
@@ -546,7 +1165,7 @@ async function handleStop(ctx: Context): Promise<void> {
 }
 
 async function handleStopAll(ctx: Context): Promise<void> {
-  const monitors = getActiveMonitors();
+  const monitors = getMonitors();
   if (monitors.length === 0) {
     await ctx.reply("📭 No active monitors to stop.");
     return;
@@ -556,129 +1175,165 @@ async function handleStopAll(ctx: Context): Promise<void> {
   await ctx.reply(`⏹️ Stopped all <b>${count}</b> monitor(s).`, { parse_mode: "HTML" });
 }
 
-// ── /simple command handler ─────────────────────────────────────────
+// ── /rebase command handler ─────────────────────────────────────────
 
-async function handleSimple(ctx: Context): Promise<void> {
+async function handleRebase(ctx: Context): Promise<void> {
   const text = ctx.message?.text ?? "";
   const parts = text.split(/\s+/);
 
-  if (parts.length < 4) {
+  if (parts.length < 2) {
     await ctx.reply(
-      `<b>Usage:</b>\n<code>/simple &lt;contract-address&gt; &lt;stop-loss&gt; &lt;notify-percent&gt;</code>\n\n` +
-        `<b>Example:</b>\n<code>/simple 0x1234...abcd 0.003 5</code>\n` +
-        `Monitors the token, notifies every +5% gain, auto-sells at $0.003 if you hold a position.`,
+      `<b>Usage:</b>\n<code>/rebase &lt;contract-address&gt; [-percent%]</code>\n\n` +
+        `Recomputes the stop-loss from the current price using the monitor's stored percentage ` +
+        `(or a new one if given).\n` +
+        `<b>Example:</b>\n<code>/rebase 0x1234...abcd -10%</code>`,
       { parse_mode: "HTML" }
     );
     return;
   }
 
   const contractAddress = parts[1].trim();
-  const stopLoss = parseFloat(parts[2]);
-  const notifyPercent = parseFloat(parts[3]);
-
-  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
-    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
-    return;
-  }
-  if (isNaN(stopLoss) || stopLoss <= 0) {
-    await ctx.reply("❌ Invalid stop-loss price. Must be a positive number.");
+  const monitor = getMonitor(contractAddress);
+  if (!monitor) {
+    await ctx.reply(`❌ No monitor found for <code>${escapeHtml(contractAddress)}</code>`, { parse_mode: "HTML" });
     return;
   }
-  if (isNaN(notifyPercent) || notifyPercent <= 0) {
-    await ctx.reply("❌ Invalid notify percent. Must be a positive number.");
+  if (!strategySupports(monitor, "rebase")) {
+    await ctx.reply(`❌ ${monitor.type} monitors don't use a fixed stop-loss.`);
     return;
   }
 
-  await ctx.reply("⏳ Looking up token...");
-  const info = await getTokenInfo(contractAddress);
-  if (!info) {
+  let stopLossPercent = monitor.stopLossPercent;
+  if (parts[2]) {
+    const input = parseStopLossArg(parts[2]);
+    if (!input || input.kind !== "percent") {
+      await ctx.reply("❌ Invalid percent. Use e.g. -10%.");
+      return;
+    }
+    stopLossPercent = input.value;
+  }
+  if (stopLossPercent === undefined) {
     await ctx.reply(
-      `❌ Could not find token <code>${escapeHtml(contractAddress)}</code> on Base.`,
+      `❌ <b>${escapeHtml(monitor.symbol)}</b> has an absolute stop-loss. Pass a percent, e.g. <code>/rebase ${monitor.address} -10%</code>`,
       { parse_mode: "HTML" }
     );
     return;
   }
-  if (info.priceUsd <= 0) {
-    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(info.symbol)}</b>.`, { parse_mode: "HTML" });
-    return;
-  }
-  if (stopLoss >= info.priceUsd) {
-    await ctx.reply(
-      `⚠️ Stop-loss ($${stopLoss}) is at or above current price ($${info.priceUsd.toPrecision(6)}).\n` +
-        `Please set a stop-loss below current price.`
-    );
+
+  const info = await getTokenInfo(monitor.address, monitor.pairAddress);
+  if (!info || info.priceUsd <= 0) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(monitor.symbol)}</b>.`, { parse_mode: "HTML" });
     return;
   }
 
-  const monitor: MonitoredToken = {
-    type: "simple",
-    address: info.address,
-    symbol: info.symbol,
-    name: info.name,
-    stopLossPrice: stopLoss,
-    entryPrice: info.priceUsd,
-    lastNotifiedMilestone: 0,
-    active: true,
-    dexScreenerUrl: info.dexScreenerUrl,
-    addedAt: Date.now(),
-    notifyPercent,
-  };
-
-  addMonitor(monitor);
-
-  const slPercent = ((info.priceUsd - stopLoss) / info.priceUsd * 100).toFixed(1);
+  const { stopLossPrice } = resolveStopLoss({ kind: "percent", value: stopLossPercent }, info.priceUsd);
+  const previousStop = monitor.stopLossPrice;
+  updateMonitor(monitor.address, { stopLossPrice, stopLossPercent });
 
   await ctx.reply(
-    `✅ <b>Simple monitor: ${escapeHtml(info.symbol)}</b>\n\n` +
-      `📍 Address: <code>${info.address}</code>\n` +
+    `🔁 <b>Stop-loss re-based: ${escapeHtml(monitor.symbol)}</b>\n\n` +
       `💵 Current price: $${info.priceUsd.toPrecision(6)}\n` +
-      `🛑 Stop-loss: $${stopLoss} (${slPercent}% below)\n` +
-      `📊 Notify: every +${notifyPercent}% gain\n` +
-      `⏱️ Checking every ${config.monitorIntervalSec}s\n` +
-      `🔴 Will auto-sell on stop-loss (sells from wallet balance)\n\n` +
-      `${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
+      `🛑 Stop-loss: $${formatPrice(previousStop)} → $${formatPrice(stopLossPrice)} (-${stopLossPercent}%)`,
     { parse_mode: "HTML" }
   );
 }
 
-// ── /buyback command handler ────────────────────────────────────────
+// ── /breakeven command handler ──────────────────────────────────────
 
-async function handleBuyback(ctx: Context): Promise<void> {
+async function handleBreakEven(ctx: Context): Promise<void> {
   const text = ctx.message?.text ?? "";
   const parts = text.split(/\s+/);
 
-  if (parts.length < 5) {
+  if (parts.length < 2) {
     await ctx.reply(
-      `<b>Usage:</b>\n<code>/buyback &lt;contract-address&gt; &lt;notify-percent&gt; &lt;usdc-amount&gt; &lt;buyback-percent&gt;</code>\n\n` +
-        `<b>Example:</b>\n<code>/buyback 0x1234...abcd 5 100 10</code>\n` +
-        `Notifies every +5% gain. Buys $100 USDC worth for every 10% dip from entry.`,
+      `<b>Usage:</b>\n<code>/breakeven &lt;contract-address&gt; [buffer% | off]</code>\n\n` +
+        `When the monitor hits its first milestone, the stop-loss moves up to the entry price ` +
+        `(plus an optional buffer) so the trade can no longer lose money.\n\n` +
+        `<b>Examples:</b>\n` +
+        `<code>/breakeven 0x1234...abcd</code> — stop to entry\n` +
+        `<code>/breakeven 0x1234...abcd 2%</code> — stop to entry +2%\n` +
+        `<code>/breakeven 0x1234...abcd off</code>`,
       { parse_mode: "HTML" }
     );
     return;
   }
 
   const contractAddress = parts[1].trim();
-  const notifyPercent = parseFloat(parts[2]);
-  const usdcAmount = parseFloat(parts[3]);
-  const buybackPercent = parseFloat(parts[4]);
+  const monitor = getMonitor(contractAddress);
+  if (!monitor) {
+    await ctx.reply(`❌ No monitor found for <code>${escapeHtml(contractAddress)}</code>`, { parse_mode: "HTML" });
+    return;
+  }
+  if (!strategySupports(monitor, "breakeven")) {
+    await ctx.reply(`❌ Break-even stops don't apply to ${monitor.type} monitors.`);
+    return;
+  }
 
-  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
-    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
+  const arg = parts[2]?.trim().toLowerCase();
+  if (arg === "off") {
+    updateMonitor(monitor.address, { breakEvenBufferPercent: undefined, breakEvenApplied: undefined });
+    await ctx.reply(`✅ Break-even stop disabled for <b>${escapeHtml(monitor.symbol)}</b>.`, { parse_mode: "HTML" });
     return;
   }
-  if (isNaN(notifyPercent) || notifyPercent <= 0) {
-    await ctx.reply("❌ Invalid notify percent. Must be a positive number.");
+
+  const buffer = arg ? parseFloat(arg.replace("%", "")) : 0;
+  if (isNaN(buffer) || buffer < 0) {
+    await ctx.reply("❌ Invalid buffer. Use a non-negative percent, e.g. 2%.");
     return;
   }
-  if (isNaN(usdcAmount) || usdcAmount <= 0) {
-    await ctx.reply("❌ Invalid USDC amount. Must be a positive number.");
+
+  updateMonitor(monitor.address, { breakEvenBufferPercent: buffer, breakEvenApplied: false });
+
+  const breakEvenPrice = monitor.entryPrice * (1 + buffer / 100);
+  const alreadyPast = monitor.lastNotifiedMilestone > 0
+    ? `\nℹ️ A milestone was already reached — the stop moves at the next one.`
+    : "";
+
+  await ctx.reply(
+    `🛡️ <b>Break-even stop armed: ${escapeHtml(monitor.symbol)}</b>\n\n` +
+      `💵 Entry: $${monitor.entryPrice.toPrecision(6)}\n` +
+      `🛑 Stop moves to $${breakEvenPrice.toPrecision(6)}${buffer > 0 ? ` (entry +${buffer}%)` : ""} at the first milestone` +
+      alreadyPast,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── /watch command handlers ─────────────────────────────────────────
+
+async function handleWatch(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 3) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/watch &lt;contract-address&gt; &lt;price&gt; [price...]</code>\n\n` +
+        `Each level fires one alert. A plain price is an "above" alert if it's over the current price ` +
+        `and a "below" alert otherwise; prefix with &gt; or &lt; to force the direction.\n\n` +
+        `<b>Example:</b>\n<code>/watch 0x1234...abcd 0.012 0.008</code>\n` +
+        `Watching never buys or sells.`,
+      { parse_mode: "HTML" }
+    );
     return;
   }
-  if (isNaN(buybackPercent) || buybackPercent <= 0) {
-    await ctx.reply("❌ Invalid buyback percent. Must be a positive number.");
+
+  const contractAddress = parts[1].trim();
+  if (!/^0x[a-fA-F0-9]{40}$/.test(contractAddress)) {
+    await ctx.reply("❌ Invalid contract address. Must be a 0x... address (40 hex chars).");
     return;
   }
 
+  const levels: Array<{ price: number; forced?: WatchAlert["direction"] }> = [];
+  for (const arg of parts.slice(2)) {
+    const match = arg.match(/^([<>])?\$?([\d.]+)$/);
+    const price = match ? parseFloat(match[2]) : NaN;
+    if (!match || isNaN(price) || price <= 0) {
+      await ctx.reply(`❌ Invalid price <code>${escapeHtml(arg)}</code>. Use e.g. 0.012, &gt;0.012 or &lt;0.008.`, { parse_mode: "HTML" });
+      return;
+    }
+    const forced = match[1] === ">" ? "above" : match[1] === "<" ? "below" : undefined;
+    levels.push({ price, forced });
+  }
+
   await ctx.reply("⏳ Looking up token...");
   const info = await getTokenInfo(contractAddress);
   if (!info) {
@@ -693,67 +1348,741 @@ async function handleBuyback(ctx: Context): Promise<void> {
     return;
   }
 
-  // Check USDC balance
-  const usdcBal = await getUsdcBalanceFormatted();
-  const usdcBalNum = parseFloat(usdcBal);
-  let balanceWarning = "";
-  if (usdcBalNum < usdcAmount) {
-    balanceWarning = `\n⚠️ <b>Warning:</b> USDC balance ($${usdcBalNum.toFixed(2)}) is less than budget ($${usdcAmount})`;
+  const alerts: WatchAlert[] = levels.map((l) => ({
+    price: l.price,
+    direction: l.forced ?? (l.price > info.priceUsd ? "above" : "below"),
+  }));
+
+  const entry = addWatchAlerts(
+    { address: info.address, symbol: info.symbol, name: info.name, dexScreenerUrl: info.dexScreenerUrl },
+    alerts
+  );
+
+  await ctx.reply(
+    `👀 <b>Watching ${escapeHtml(info.symbol)}</b>\n\n` +
+      `📍 Address: <code>${info.address}</code>\n` +
+      `💵 Current price: $${info.priceUsd.toPrecision(6)}\n` +
+      entry.alerts.map((a) => formatWatchAlert(a, info.priceUsd)).join("\n") +
+      `\n\nℹ️ Alerts only — no trades.`,
+    { parse_mode: "HTML" }
+  );
+}
+
+async function handleUnwatch(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 2) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/unwatch &lt;contract-address&gt; [price]</code>\n\n` +
+        `Without a price the whole token is removed from the watchlist.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const entry = getWatchEntry(contractAddress);
+  if (!entry) {
+    await ctx.reply(`❌ <code>${escapeHtml(contractAddress)}</code> is not on the watchlist.`, { parse_mode: "HTML" });
+    return;
   }
 
-  const monitor: MonitoredToken = {
-    type: "buyback",
-    address: info.address,
-    symbol: info.symbol,
-    name: info.name,
-    stopLossPrice: 0,  // No stop-loss for buyback strategy
-    entryPrice: info.priceUsd,
-    lastNotifiedMilestone: 0,
-    active: true,
-    dexScreenerUrl: info.dexScreenerUrl,
-    addedAt: Date.now(),
-    notifyPercent,
-    usdcPerBuyback: usdcAmount,
-    buybackPercent,
-    totalUsdcBudget: usdcBalNum, // Use available USDC balance as budget cap
-    usdcSpent: 0,
-    lastBuybackLevel: 0,
+  if (!parts[2]) {
+    removeWatchEntry(entry.address);
+    await ctx.reply(`🗑️ Stopped watching <b>${escapeHtml(entry.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const price = parseFloat(parts[2].replace(/^[<>$]+/, ""));
+  const remaining = entry.alerts.filter((a) => a.price !== price);
+  if (remaining.length === entry.alerts.length) {
+    await ctx.reply(`❌ No alert at $${escapeHtml(parts[2])} for <b>${escapeHtml(entry.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  setWatchAlerts(entry.address, remaining);
+  await ctx.reply(
+    remaining.length > 0
+      ? `🗑️ Removed the $${formatPrice(price)} alert for <b>${escapeHtml(entry.symbol)}</b> (${remaining.length} left).`
+      : `🗑️ Removed the last alert — stopped watching <b>${escapeHtml(entry.symbol)}</b>.`,
+    { parse_mode: "HTML" }
+  );
+}
+
+async function handleWatchlist(ctx: Context): Promise<void> {
+  const watchlist = getWatchlist();
+  if (watchlist.length === 0) {
+    await ctx.reply("👀 Watchlist is empty.\n\nUse <code>/watch &lt;address&gt; &lt;price&gt;</code> to add alerts.", { parse_mode: "HTML" });
+    return;
+  }
+
+  const quotes = await getTokenQuotes(watchlist.map((w) => w.address as Address));
+
+  let msg = "👀 <b>Watchlist</b>\n\n";
+  for (const w of watchlist) {
+    const price = quotes.get(w.address.toLowerCase())?.priceUsd;
+    msg += `<b>${escapeHtml(w.symbol)}</b> — ${price ? `$${price.toPrecision(6)}` : "price unavailable"}\n`;
+    msg += `   📍 <code>${w.address}</code>\n`;
+    for (const alert of w.alerts) {
+      msg += `   ${formatWatchAlert(alert, price)}\n`;
+    }
+    msg += `   ⏱️ Watching for: ${timeSince(w.addedAt)}\n\n`;
+  }
+
+  msg += `Use /unwatch &lt;address&gt; [price] to remove.`;
+  await ctx.reply(msg, { parse_mode: "HTML" });
+}
+
+function formatWatchAlert(alert: WatchAlert, currentPrice?: number): string {
+  const arrow = alert.direction === "above" ? "⬆️" : "⬇️";
+  const pct = currentPrice ? (alert.price - currentPrice) / currentPrice * 100 : undefined;
+  const distance = pct !== undefined ? ` (${pct >= 0 ? "+" : ""}${pct.toFixed(1)}%)` : "";
+  return `${arrow} ${alert.direction} $${formatPrice(alert.price)}${distance}`;
+}
+
+// ── /drawdown command handler ───────────────────────────────────────
+
+async function handleDrawdown(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 3) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/drawdown &lt;contract-address&gt; &lt;percent%&gt; [entry | high]</code>\n` +
+        `<code>/drawdown &lt;contract-address&gt; off</code>\n\n` +
+        `Sends an alert every time the price falls another X% — nothing is sold.\n\n` +
+        `<b>Examples:</b>\n` +
+        `<code>/drawdown 0x1234...abcd 10%</code> — alert at -10%, -20%, ... from entry\n` +
+        `<code>/drawdown 0x1234...abcd 5% high</code> — alert at -5%, -10%, ... from the highest price seen`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const monitor = getMonitor(contractAddress);
+  if (!monitor) {
+    await ctx.reply(`❌ No monitor found for <code>${escapeHtml(contractAddress)}</code>`, { parse_mode: "HTML" });
+    return;
+  }
+  if (!strategySupports(monitor, "drawdown")) {
+    await ctx.reply(`❌ Drawdown alerts don't apply to ${monitor.type} monitors.`);
+    return;
+  }
+
+  const arg = parts[2].trim().toLowerCase();
+  if (arg === "off") {
+    updateMonitor(monitor.address, { drawdownAlertPercent: undefined, drawdownFrom: undefined, lastNotifiedDrawdown: undefined });
+    await ctx.reply(`✅ Drawdown alerts disabled for <b>${escapeHtml(monitor.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const percent = Math.abs(parseFloat(arg.replace("%", "")));
+  if (isNaN(percent) || percent <= 0 || percent >= 100) {
+    await ctx.reply("❌ Invalid percent. Use a number between 0 and 100, e.g. 10%.");
+    return;
+  }
+
+  const from = parts[3]?.trim().toLowerCase() ?? "entry";
+  if (from !== "entry" && from !== "high") {
+    await ctx.reply("❌ Invalid reference. Use entry or high.");
+    return;
+  }
+
+  const updates: Partial<MonitoredToken> = {
+    drawdownAlertPercent: percent,
+    drawdownFrom: from,
+    lastNotifiedDrawdown: 0,
   };
+  if (from === "high" && monitor.highestPrice === undefined) {
+    updates.highestPrice = monitor.entryPrice;
+  }
+  updateMonitor(monitor.address, updates);
 
-  addMonitor(monitor);
+  const reference = from === "high" ? (monitor.highestPrice ?? monitor.entryPrice) : monitor.entryPrice;
 
-  const buybackSlots = Math.floor(usdcBalNum / usdcAmount);
+  await ctx.reply(
+    `⚠️ <b>Drawdown alerts set: ${escapeHtml(monitor.symbol)}</b>\n\n` +
+      `${from === "high" ? "📈 High so far" : "📍 Entry"}: $${reference.toPrecision(6)}\n` +
+      `🔔 Alert every -${percent}% (first at $${(reference * (1 - percent / 100)).toPrecision(6)})\n` +
+      `ℹ️ Alerts only — the stop-loss still decides when to sell.`,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── /expire command handler ────────────────────────────────────────
+
+async function handleExpire(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 3) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/expire &lt;contract-address&gt; &lt;duration | date&gt; [sell | notify]</code>\n` +
+        `<code>/expire &lt;contract-address&gt; off</code>\n\n` +
+        `A duration (<code>90m</code>, <code>72h</code>, <code>3d</code>) counts from when the monitor was added; ` +
+        `a date (<code>2026-10-21</code> or <code>2026-10-21T18:00</code>) is UTC.\n` +
+        `On expiry <code>sell</code> (default) sells the full balance; <code>notify</code> only alerts and pauses the monitor.\n\n` +
+        `<b>Examples:</b>\n` +
+        `<code>/expire 0x1234...abcd 72h</code>\n` +
+        `<code>/expire 0x1234...abcd 2026-10-21T18:00 notify</code>`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const monitor = getMonitor(contractAddress);
+  if (!monitor) {
+    await ctx.reply(`❌ No monitor found for <code>${escapeHtml(contractAddress)}</code>`, { parse_mode: "HTML" });
+    return;
+  }
+
+  if (parts[2].toLowerCase() === "off") {
+    updateMonitor(monitor.address, { maxHoldHours: undefined, expiresAt: undefined, expiryAction: undefined });
+    await ctx.reply(`✅ Expiry removed from <b>${escapeHtml(monitor.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const input = parseExpiryArg(parts[2]);
+  if (!input) {
+    await ctx.reply("❌ Invalid expiry. Use a duration (90m, 72h, 3d) or a UTC date (2026-10-21 or 2026-10-21T18:00).");
+    return;
+  }
+
+  const action = parts[3]?.trim().toLowerCase() ?? "sell";
+  if (action !== "sell" && action !== "notify") {
+    await ctx.reply("❌ Invalid action. Use sell or notify.");
+    return;
+  }
+
+  const updates: Partial<MonitoredToken> = input.kind === "hours"
+    ? { maxHoldHours: input.value, expiresAt: undefined, expiryAction: action }
+    : { expiresAt: input.value, maxHoldHours: undefined, expiryAction: action };
+  const expiry = monitorExpiry({ ...monitor, ...updates })!;
+
+  if (expiry <= Date.now()) {
+    await ctx.reply(
+      `⚠️ That expiry (${formatUtc(expiry)}) has already passed — the monitor would close out on the next tick.\n` +
+        `Pick a later time.`
+    );
+    return;
+  }
+
+  updateMonitor(monitor.address, updates);
+
+  const heldFor = input.kind === "hours" ? ` (max hold ${formatDuration(input.value * 3_600_000)})` : "";
+  const outcome = action === "sell"
+    ? strategyFor(monitor).skipLiquidityExit
+      ? "⏸️ Nothing is held yet, so the monitor will just be deactivated"
+      : "💸 Sells the full balance"
+    : "🔔 Alerts and pauses the monitor — nothing is sold";
 
   await ctx.reply(
-    `✅ <b>Buyback monitor: ${escapeHtml(info.symbol)}</b>\n\n` +
-      `📍 Address: <code>${info.address}</code>\n` +
-      `💵 Entry price: $${info.priceUsd.toPrecision(6)}\n` +
-      `📊 Notify: every +${notifyPercent}% gain\n` +
-      `📉 Buyback: $${usdcAmount} USDC every -${buybackPercent}% drop\n` +
-      `💰 Budget: $${usdcBalNum.toFixed(2)} USDC (~${buybackSlots} buyback${buybackSlots !== 1 ? "s" : ""})\n` +
-      `⏱️ Checking every ${config.monitorIntervalSec}s` +
-      balanceWarning +
+    `⌛ <b>Expiry set: ${escapeHtml(monitor.symbol)}</b>\n\n` +
+      `🕐 Expires: ${formatUtc(expiry)}${heldFor}\n` +
+      `⏱️ In: ${timeUntil(expiry)}\n` +
+      outcome,
+    { parse_mode: "HTML" }
+  );
+}
+
+/** "2026-10-21 18:00 UTC" */
+function formatUtc(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+// ── /confirm command handler ────────────────────────────────────────
+
+async function handleConfirm(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 3) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/confirm &lt;contract-address&gt; &lt;ticks | seconds s | off&gt;</code>\n\n` +
+        `<b>Examples:</b>\n` +
+        `<code>/confirm 0x1234...abcd 3</code> — sell after 3 consecutive ticks at/below the stop ` +
+        `(one per ${config.monitorIntervalSec}s check interval, even while polling faster near the stop)\n` +
+        `<code>/confirm 0x1234...abcd 90s</code> — sell once the time-weighted price stays at/below the stop for 90s\n` +
+        `<code>/confirm 0x1234...abcd off</code> — sell on the first tick (default)`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const monitor = getMonitor(contractAddress);
+  if (!monitor) {
+    await ctx.reply(`❌ No monitor found for <code>${escapeHtml(contractAddress)}</code>`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const arg = parts[2].trim().toLowerCase();
+  if (arg === "off") {
+    updateMonitor(monitor.address, { stopConfirmTicks: undefined, stopConfirmSec: undefined, stopBreach: undefined });
+    await ctx.reply(`✅ <b>${escapeHtml(monitor.symbol)}</b> stop-loss fires on the first tick below the stop.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const isSeconds = arg.endsWith("s");
+  const value = Number(isSeconds ? arg.slice(0, -1) : arg);
+  if (!Number.isInteger(value) || value <= 0) {
+    await ctx.reply("❌ Invalid rule. Use a whole number of ticks (3) or seconds (90s).");
+    return;
+  }
+
+  const updates: Partial<MonitoredToken> = isSeconds
+    ? { stopConfirmSec: value, stopConfirmTicks: undefined, stopBreach: undefined }
+    : { stopConfirmTicks: value, stopConfirmSec: undefined, stopBreach: undefined };
+  updateMonitor(monitor.address, updates);
+
+  await ctx.reply(
+    `✅ <b>${escapeHtml(monitor.symbol)}</b> stop-loss confirmation: ${formatConfirmRule({ ...monitor, ...updates })}\n` +
+      `You'll get a heads-up on the first tick below $${formatPrice(monitor.stopLossPrice)}.`,
+    { parse_mode: "HTML" }
+  );
+}
+
+// ── /ladder command handler ─────────────────────────────────────────
+
+async function handleLadder(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 3) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/ladder &lt;contract-address&gt; &lt;gain%&gt;:&lt;sell%&gt; ...</code>\n` +
+        `<code>/ladder &lt;contract-address&gt; off</code>\n\n` +
+        `<b>Example:</b>\n<code>/ladder 0x1234...abcd 50:25 100:25 200:rest</code>\n` +
+        `Sells 25% of the current holding at +50%, 25% at +100% and the rest at +200% from entry.\n` +
+        `The token must already have a monitor.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const monitor = getMonitor(contractAddress);
+  if (!monitor) {
+    await ctx.reply(`❌ No monitor found for <code>${escapeHtml(contractAddress)}</code>`, { parse_mode: "HTML" });
+    return;
+  }
+
+  if (!strategySupports(monitor, "ladder")) {
+    await ctx.reply(`❌ Take-profit ladders don't apply to ${monitor.type} monitors.`);
+    return;
+  }
+
+  if (parts[2].toLowerCase() === "off") {
+    updateMonitor(monitor.address, { takeProfits: undefined, ladderBaseAmount: undefined });
+    await ctx.reply(`🪜 Take-profit ladder removed from <b>${escapeHtml(monitor.symbol)}</b>`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const rungs: TakeProfitRung[] = [];
+  for (const arg of parts.slice(2)) {
+    const match = arg.match(/^\+?([\d.]+)%?:(rest|[\d.]+%?)$/i);
+    const gainPercent = match ? parseFloat(match[1]) : NaN;
+    const sellPercent = match && match[2].toLowerCase() !== "rest" ? parseFloat(match[2]) : 100;
+    if (isNaN(gainPercent) || gainPercent <= 0 || isNaN(sellPercent) || sellPercent <= 0 || sellPercent > 100) {
+      await ctx.reply(`❌ Invalid rung <code>${escapeHtml(arg)}</code>. Use &lt;gain%&gt;:&lt;sell%&gt;, e.g. 50:25 or 200:rest.`, { parse_mode: "HTML" });
+      return;
+    }
+    rungs.push({ gainPercent, sellPercent, filled: false });
+  }
+
+  rungs.sort((a, b) => a.gainPercent - b.gainPercent);
+
+  const partialTotal = rungs.slice(0, -1).reduce((sum, r) => sum + r.sellPercent, 0);
+  if (partialTotal >= 100) {
+    await ctx.reply("❌ Rungs before the last must sell less than 100% in total — the last rung sells the rest.");
+    return;
+  }
+  rungs[rungs.length - 1].sellPercent = 100 - partialTotal;
+
+  // A pending limit buy holds nothing to size from yet — the fill records the base
+  const awaitingFill = monitor.type === "limitbuy";
+  const balance = awaitingFill ? 0n : await getTokenBalance(monitor.address as Address);
+  if (balance === 0n && !config.dryRun && !awaitingFill) {
+    await ctx.reply(`❌ Wallet holds no <b>${escapeHtml(monitor.symbol)}</b> — nothing to scale out of.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  // Nothing held yet (dry run) — the first rung to fire reads the balance then
+  updateMonitor(monitor.address, { takeProfits: rungs, ladderBaseAmount: balance > 0n ? balance.toString() : undefined });
+
+  await ctx.reply(
+    `🪜 <b>Take-profit ladder set: ${escapeHtml(monitor.symbol)}</b>\n\n` +
+      (awaitingFill
+        ? `⏳ Gains count from the limit-buy fill price, and rungs sell shares of the holding after the fill\n`
+        : `💵 Entry price: $${monitor.entryPrice.toPrecision(6)}\n`) +
+      rungs
+        .map((r, i) => {
+          const label = i === rungs.length - 1 ? "rest" : `${r.sellPercent}%`;
+          if (awaitingFill) return `🎯 +${r.gainPercent}% → sell ${label}`;
+          const target = monitor.entryPrice * (1 + r.gainPercent / 100);
+          return `🎯 +${r.gainPercent}% ($${target.toPrecision(6)}) → sell ${label}`;
+        })
+        .join("\n") +
       `\n\n${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
     { parse_mode: "HTML" }
   );
 }
 
-// ── Utilities ──────────────────────────────────────────────────────
+// ── /stoptiers command handler ─────────────────────────────────────
+
+async function handleStopTiers(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 3) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/stoptiers &lt;contract-address&gt; &lt;price|-percent%&gt;:&lt;sell%&gt; ...</code>\n` +
+        `<code>/stoptiers &lt;contract-address&gt; off</code>\n\n` +
+        `<b>Example:</b>\n<code>/stoptiers 0x1234...abcd 0.005:50 0.0045:rest</code>\n` +
+        `Sells 50% of the current holding at $0.005 and the rest at $0.0045. ` +
+        `Percent prices (<code>-10%:50</code>) are below the current price.\n` +
+        `The token must already have a monitor.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const monitor = getMonitor(contractAddress);
+  if (!monitor) {
+    await ctx.reply(`❌ No monitor found for <code>${escapeHtml(contractAddress)}</code>`, { parse_mode: "HTML" });
+    return;
+  }
+
+  if (!strategySupports(monitor, "tiers")) {
+    await ctx.reply(`❌ Tiered stops don't apply to ${monitor.type} monitors.`);
+    return;
+  }
+
+  if (parts[2].toLowerCase() === "off") {
+    // The next unfilled tier's price stays as a plain stop for the whole balance
+    updateMonitor(monitor.address, { stopTiers: undefined, stopTiersBaseAmount: undefined });
+    await ctx.reply(
+      `🛑 Stop tiers removed from <b>${escapeHtml(monitor.symbol)}</b> — single stop at $${formatPrice(monitor.stopLossPrice)}`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const quotes = await getTokenQuotes([monitor.address as Address], pinnedPairs([monitor]));
+  const currentPrice = quotes.get(monitor.address.toLowerCase())?.priceUsd;
+  if (!currentPrice) {
+    await ctx.reply(`❌ Could not get current price for <b>${escapeHtml(monitor.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const tiers: StopTier[] = [];
+  for (const arg of parts.slice(2)) {
+    const match = arg.match(/^(-?[\d.]+%?):(rest|[\d.]+%?)$/i);
+    const priceInput = match ? parseStopLossArg(match[1]) : null;
+    const sellPercent = match && match[2].toLowerCase() !== "rest" ? parseFloat(match[2]) : 100;
+    if (!priceInput || isNaN(sellPercent) || sellPercent <= 0 || sellPercent > 100) {
+      await ctx.reply(
+        `❌ Invalid tier <code>${escapeHtml(arg)}</code>. Use &lt;price&gt;:&lt;sell%&gt;, e.g. 0.005:50, -10%:50 or 0.0045:rest.`,
+        { parse_mode: "HTML" }
+      );
+      return;
+    }
+    tiers.push({ price: resolveStopLoss(priceInput, currentPrice).stopLossPrice, sellPercent, filled: false });
+  }
+
+  tiers.sort((a, b) => b.price - a.price);
+
+  if (tiers[0].price >= currentPrice) {
+    await ctx.reply(
+      `⚠️ Highest tier ($${formatPrice(tiers[0].price)}) is at or above current price ($${currentPrice.toPrecision(6)}).\n` +
+        `This would trigger an immediate sell. Please set every tier below current price.`
+    );
+    return;
+  }
+  if (tiers.slice(0, -1).some((t) => t.sellPercent >= 100)) {
+    await ctx.reply("❌ Tiers before the last must sell less than 100% — the last tier sells the rest.");
+    return;
+  }
+  tiers[tiers.length - 1].sellPercent = 100;
 
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
+  // Tiers sell a share of this balance, not of whatever is left when they fire
+  const balance = await getTokenBalance(monitor.address as Address);
+
+  updateMonitor(monitor.address, {
+    stopTiers: tiers,
+    stopTiersBaseAmount: balance > 0n ? balance.toString() : undefined,
+    stopLossPrice: tiers[0].price,
+    stopLossPercent: undefined,
+    stopBreach: undefined,
+  });
+
+  await ctx.reply(
+    `🛑 <b>Stop tiers set: ${escapeHtml(monitor.symbol)}</b>\n\n` +
+      `💵 Current price: $${currentPrice.toPrecision(6)}\n` +
+      `🪜 ${formatStopTiers(tiers)}\n` +
+      `Partial tiers sell a % of the current holding.` +
+      `\n\n${config.dryRun ? "🔧 <b>DRY RUN MODE</b>" : "🔴 <b>LIVE MODE</b>"}`,
+    { parse_mode: "HTML" }
+  );
 }
 
-function timeSince(timestamp: number): string {
-  const seconds = Math.floor((Date.now() - timestamp) / 1000);
-  if (seconds < 60) return `${seconds}s`;
-  const minutes = Math.floor(seconds / 60);
-  if (minutes < 60) return `${minutes}m`;
-  const hours = Math.floor(minutes / 60);
-  if (hours < 24) return `${hours}h ${minutes % 60}m`;
-  const days = Math.floor(hours / 24);
-  return `${days}d ${hours % 24}h`;
+/** Candles shown by /chart — one sparkline block each */
+const CHART_CANDLES = 48;
+
+async function handleChart(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 2 || !/^0x[a-fA-F0-9]{40}$/.test(parts[1])) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/chart &lt;contract-address&gt; [1m | 5m | 1h]</code>\n\n` +
+        `Shows the last ${CHART_CANDLES} candles recorded by the monitor loop (default 5m), ` +
+        `with the stop-loss and take-profit against the range.\n\n` +
+        `<b>Example:</b>\n<code>/chart 0x1234...abcd 1h</code>`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const interval = parts[2]?.trim().toLowerCase() ?? "5m";
+  if (!isCandleInterval(interval)) {
+    await ctx.reply("❌ Invalid interval. Use 1m, 5m or 1h.");
+    return;
+  }
+
+  const candles = getCandles(contractAddress, interval, CHART_CANDLES);
+  const monitor = getMonitor(contractAddress);
+  const symbol = escapeHtml(monitor?.symbol ?? contractAddress.slice(0, 10));
+  if (candles.length === 0) {
+    await ctx.reply(
+      `📭 No price history for <b>${symbol}</b> yet — prices are recorded while a monitor is active.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const open = candles[0].o;
+  const close = candles[candles.length - 1].c;
+  const high = Math.max(...candles.map((c) => c.h));
+  const low = Math.min(...candles.map((c) => c.l));
+  const change = ((close - open) / open) * 100;
+  const span = candles[candles.length - 1].t + CANDLE_INTERVAL_MS[interval] - candles[0].t;
+
+  let msg =
+    `📈 <b>${symbol}</b> — ${candles.length} × ${interval} candles (${formatDuration(span)})\n\n` +
+    `<pre>${formatSparkline(candles.map((c) => c.c))}</pre>\n` +
+    `💵 $${formatPrice(open)} → $${formatPrice(close)} (${change >= 0 ? "+" : ""}${change.toFixed(1)}%)\n` +
+    `⬆️ High: $${formatPrice(high)}  ⬇️ Low: $${formatPrice(low)}\n`;
+
+  if (monitor && monitor.stopLossPrice > 0) {
+    const stop = monitor.stopLossPrice;
+    const wicks = candles.filter((c) => c.l <= stop).length;
+    const placement = stop < low
+      ? `${(((low - stop) / low) * 100).toFixed(1)}% below the low`
+      : `inside the range — ${wicks}/${candles.length} candles traded at or below it`;
+    msg += `🛑 Stop: $${formatPrice(stop)} (${placement})\n`;
+  }
+  if (monitor?.takeProfitPrice) {
+    const target = monitor.takeProfitPrice;
+    const placement = target > high
+      ? `${(((target - high) / high) * 100).toFixed(1)}% above the high`
+      : "inside the range";
+    msg += `🎯 Take-profit: $${formatPrice(target)} (${placement})\n`;
+  }
+
+  await ctx.reply(msg, { parse_mode: "HTML" });
+}
+
+/** Pairs offered by /pair — the deepest ones, enough to spot a spoofed pool */
+const PAIR_CHOICES = 8;
+
+/** How long the buttons of a /pair list stay usable */
+const PAIR_OFFER_TTL_MS = 15 * 60_000;
+
+/**
+ * Inline-button data: "pin:<offer id>:<index | auto>". Telegram caps callback
+ * data at 64 bytes, too short for two addresses, so the offered pairs are kept
+ * here under a random id and a tap can only pick one of them.
+ */
+const PAIR_CALLBACK = /^pin:([\w-]{8}):(\d+|auto)$/;
+
+interface PairOffer {
+  token: string;
+  pairs: string[];
+  at: number;
+}
+
+/** /pair lists still on screen, by offer id */
+const pairOffers = new Map<string, PairOffer>();
+
+function offerPairs(token: string, pairs: string[]): string {
+  const now = Date.now();
+  for (const [id, offer] of pairOffers) {
+    if (now - offer.at > PAIR_OFFER_TTL_MS) pairOffers.delete(id);
+  }
+  const id = randomBytes(6).toString("base64url");
+  pairOffers.set(id, { token, pairs, at: now });
+  return id;
+}
+
+/**
+ * Pin a monitor to a pair (undefined = back to the highest-liquidity pair).
+ * "not-found" if the pair isn't the token's, null if the lookup failed.
+ */
+async function applyPairPin(monitor: MonitoredToken, pairAddress: string | undefined): Promise<TokenInfo | "not-found" | null> {
+  const info = await lookupTokenInfo(monitor.address, pairAddress);
+  if (!info || info === "not-found") return info;
+  updateMonitor(monitor.address, {
+    pairAddress: pairAddress ? info.pairAddress : undefined,
+    dexScreenerUrl: info.dexScreenerUrl,
+  });
+  return info;
+}
+
+function pairPinnedMessage(monitor: MonitoredToken, info: TokenInfo, pinned: boolean): string {
+  const source = pinned
+    ? `📌 Pinned to <a href="${info.dexScreenerUrl}">${info.pairAddress}</a>`
+    : `🔄 Back to the highest-liquidity pair (<a href="${info.dexScreenerUrl}">${info.pairAddress.slice(0, 10)}…</a>)`;
+  const rebase = monitor.stopLossPercent !== undefined
+    ? `\nUse /rebase ${monitor.address} to recompute the % stop-loss from this price.`
+    : "";
+  return (
+    `✅ <b>${escapeHtml(monitor.symbol)}</b> pricing updated\n\n` +
+    `${source}\n` +
+    `💵 Price from this pair: $${info.priceUsd.toPrecision(6)}` +
+    rebase
+  );
+}
+
+async function handlePair(ctx: Context): Promise<void> {
+  const text = ctx.message?.text ?? "";
+  const parts = text.split(/\s+/);
+
+  if (parts.length < 2) {
+    await ctx.reply(
+      `<b>Usage:</b>\n<code>/pair &lt;contract-address&gt;</code> — pick from the token's pairs\n` +
+        `<code>/pair &lt;contract-address&gt; &lt;pair-address&gt;</code> — pin a pair directly\n` +
+        `<code>/pair &lt;contract-address&gt; auto</code> — back to the highest-liquidity pair\n\n` +
+        `A pinned monitor is priced from that pair only. You can also pin when creating one:\n` +
+        `<code>0xTOKEN@0xPAIR -15%</code>`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const contractAddress = parts[1].trim();
+  const monitor = getMonitor(contractAddress);
+  if (!monitor) {
+    await ctx.reply(`❌ No monitor found for <code>${escapeHtml(contractAddress)}</code>`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const choice = parts[2]?.trim();
+  if (choice) {
+    if (choice.toLowerCase() !== "auto" && !/^0x[a-fA-F0-9]{40}$/.test(choice)) {
+      await ctx.reply("❌ Invalid pair. Pass a 0x... pair address or auto.");
+      return;
+    }
+    const pairAddress = choice.toLowerCase() === "auto" ? undefined : choice;
+    const info = await applyPairPin(monitor, pairAddress);
+    if (!info) {
+      await ctx.reply("❌ Could not reach DexScreener to check the pair. Try again later.");
+      return;
+    }
+    if (info === "not-found") {
+      await ctx.reply(
+        `❌ <code>${escapeHtml(choice)}</code> is not a Base pair of <b>${escapeHtml(monitor.symbol)}</b>.`,
+        { parse_mode: "HTML" }
+      );
+      return;
+    }
+    await ctx.reply(pairPinnedMessage(monitor, info, pairAddress !== undefined), { parse_mode: "HTML" });
+    return;
+  }
+
+  const pairs = await getTokenPairs(monitor.address);
+  if (!pairs) {
+    await ctx.reply("❌ Could not fetch pairs from DexScreener. Try again later.");
+    return;
+  }
+  if (pairs.length === 0) {
+    await ctx.reply(`📭 DexScreener lists no Base pairs for <b>${escapeHtml(monitor.symbol)}</b>.`, { parse_mode: "HTML" });
+    return;
+  }
+
+  const shown = pairs.slice(0, PAIR_CHOICES);
+  const offerId = offerPairs(monitor.address, shown.map((p) => p.pairAddress));
+  const pinned = monitor.pairAddress?.toLowerCase();
+  const keyboard = new InlineKeyboard();
+  let msg = `📌 <b>${escapeHtml(monitor.symbol)} pairs</b> (highest liquidity first)\n` +
+    `Now: ${pinned ? `pinned to <code>${monitor.pairAddress}</code>` : "auto (highest liquidity)"}\n\n`;
+
+  shown.forEach((p, i) => {
+    const dex = [p.dexId, ...p.labels].join(" ");
+    const liquidity = p.liquidityUsd !== undefined ? `$${formatUsd(p.liquidityUsd)}` : "n/a";
+    const mark = p.pairAddress.toLowerCase() === pinned ? " 📌" : "";
+    msg += `${i + 1}. <a href="${p.url}">${escapeHtml(dex)}</a> · ${escapeHtml(monitor.symbol)}/${escapeHtml(p.quoteSymbol)}` +
+      ` · liq ${liquidity} · $${p.priceUsd.toPrecision(6)}${mark}\n`;
+    keyboard
+      .text(`${i + 1}. ${dex} /${p.quoteSymbol} · ${liquidity}${mark}`, `pin:${offerId}:${i}`)
+      .row();
+  });
+  keyboard.text("🔄 Auto (highest liquidity)", `pin:${offerId}:auto`);
+
+  if (pairs.length > shown.length) {
+    msg += `\n…and ${pairs.length - shown.length} smaller pair(s) — pin one with /pair ${monitor.address} &lt;pair&gt;`;
+  }
+
+  await ctx.reply(msg, { parse_mode: "HTML", reply_markup: keyboard, link_preview_options: { is_disabled: true } });
+}
+
+/** A button from the /pair list was tapped */
+async function handlePairChoice(ctx: Context): Promise<void> {
+  const match = (ctx.callbackQuery?.data ?? "").match(PAIR_CALLBACK);
+  const offer = match ? pairOffers.get(match[1]) : undefined;
+  if (!match || !offer || Date.now() - offer.at > PAIR_OFFER_TTL_MS) {
+    await ctx.answerCallbackQuery({ text: "These buttons have expired — run /pair again" });
+    return;
+  }
+  const monitor = getMonitor(offer.token);
+  if (!monitor) {
+    await ctx.answerCallbackQuery({ text: "Monitor no longer exists" });
+    return;
+  }
+
+  let pairAddress: string | undefined;
+  if (match[2] !== "auto") {
+    const offered = offer.pairs[Number(match[2])]?.toLowerCase();
+    const pairs = offered ? await getTokenPairs(monitor.address) : [];
+    if (!pairs) {
+      await ctx.answerCallbackQuery({ text: "Could not reach DexScreener — try again" });
+      return;
+    }
+    pairAddress = pairs.find((p) => p.pairAddress.toLowerCase() === offered)?.pairAddress;
+    if (!pairAddress) {
+      await ctx.answerCallbackQuery({ text: "Pair not found any more — run /pair again" });
+      return;
+    }
+  }
+
+  const info = await applyPairPin(monitor, pairAddress);
+  if (!info) {
+    await ctx.answerCallbackQuery({ text: "Could not reach DexScreener — try again" });
+    return;
+  }
+  if (info === "not-found") {
+    await ctx.answerCallbackQuery({ text: "Pair not found any more — run /pair again" });
+    return;
+  }
+
+  await ctx.answerCallbackQuery({ text: pairAddress ? "Pair pinned" : "Back to auto" });
+  await ctx.editMessageText(pairPinnedMessage(monitor, info, pairAddress !== undefined), {
+    parse_mode: "HTML",
+    link_preview_options: { is_disabled: true },
+  });
 }
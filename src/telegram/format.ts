@@ -0,0 +1,156 @@
+import type { MonitoredToken, StopTier, TakeProfitRung } from "../positions/manager.js";
+
+// ── Formatting & parsing ───────────────────────────────────────────
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+export type StopLossInput =
+  | { kind: "price"; value: number }
+  | { kind: "percent"; value: number };
+
+/**
+ * Parse a stop-loss argument: an absolute price ("0.005") or a percentage
+ * below the reference price ("-15%"; the minus sign is optional).
+ */
+export function parseStopLossArg(arg: string): StopLossInput | null {
+  const trimmed = arg.trim();
+  if (trimmed.endsWith("%")) {
+    const value = Math.abs(parseFloat(trimmed.slice(0, -1)));
+    if (isNaN(value) || value <= 0 || value >= 100) return null;
+    return { kind: "percent", value };
+  }
+  const value = parseFloat(trimmed);
+  if (isNaN(value) || value <= 0) return null;
+  return { kind: "price", value };
+}
+
+/**
+ * Parse a take-profit argument: an absolute price ("0.02") or a percentage
+ * above the reference price ("+40%"; the plus sign is optional).
+ */
+export function parseTakeProfitArg(arg: string): StopLossInput | null {
+  const trimmed = arg.trim().replace(/^\+/, "");
+  if (trimmed.endsWith("%")) {
+    const value = parseFloat(trimmed.slice(0, -1));
+    if (isNaN(value) || value <= 0) return null;
+    return { kind: "percent", value };
+  }
+  const value = parseFloat(trimmed);
+  if (isNaN(value) || value <= 0) return null;
+  return { kind: "price", value };
+}
+
+export type ExpiryInput =
+  | { kind: "hours"; value: number }
+  | { kind: "at"; value: number };
+
+/**
+ * Parse an expiry argument: a holding duration ("90m", "72h", "3d") or an
+ * absolute UTC time ("2026-10-21" or "2026-10-21T18:00").
+ */
+export function parseExpiryArg(arg: string): ExpiryInput | null {
+  const trimmed = arg.trim().toLowerCase();
+  const duration = trimmed.match(/^([\d.]+)([mhd])$/);
+  if (duration) {
+    const value = parseFloat(duration[1]);
+    if (isNaN(value) || value <= 0) return null;
+    const hours = duration[2] === "m" ? value / 60 : duration[2] === "d" ? value * 24 : value;
+    return { kind: "hours", value: hours };
+  }
+  if (/^\d{4}-\d{2}-\d{2}(t\d{2}:\d{2})?$/.test(trimmed)) {
+    const at = Date.parse(`${trimmed.toUpperCase()}${trimmed.includes("t") ? ":00Z" : "T00:00:00Z"}`);
+    return isNaN(at) ? null : { kind: "at", value: at };
+  }
+  return null;
+}
+
+/** Resolve a parsed stop-loss argument to an absolute price against `referencePrice`. */
+export function resolveStopLoss(
+  input: StopLossInput,
+  referencePrice: number
+): { stopLossPrice: number; stopLossPercent?: number } {
+  if (input.kind === "percent") {
+    return {
+      stopLossPrice: referencePrice * (1 - input.value / 100),
+      stopLossPercent: input.value,
+    };
+  }
+  return { stopLossPrice: input.value };
+}
+
+/** Prices typed by the user print as-is; computed ones are trimmed to 6 significant digits. */
+export function formatPrice(price: number): string {
+  return price.toString().length > 10 ? price.toPrecision(6) : price.toString();
+}
+
+export function formatConfirmRule(m: MonitoredToken): string {
+  const rule = (m.stopConfirmSec ?? 0) > 0
+    ? `${m.stopConfirmSec}s time-weighted`
+    : `${m.stopConfirmTicks} ticks`;
+  if (!m.stopBreach) return rule;
+  const breach = (m.stopConfirmSec ?? 0) > 0
+    ? `breached ${Math.round((Date.now() - m.stopBreach.startedAt) / 1000)}s`
+    : `breach ${m.stopBreach.count}/${m.stopConfirmTicks}`;
+  return `${rule} | ${breach}`;
+}
+
+export function formatUsd(amount: number): string {
+  return amount.toLocaleString("en-US", { maximumFractionDigits: 0 });
+}
+
+export function formatLadder(rungs: TakeProfitRung[]): string {
+  return rungs
+    .map((r, i) => {
+      const label = i === rungs.length - 1 ? "rest" : `${r.sellPercent}%`;
+      return `+${r.gainPercent}%→${label}${r.filled ? " ✅" : ""}`;
+    })
+    .join(" | ");
+}
+
+/** "$0.005→50% ✅ | $0.0045→rest" */
+export function formatStopTiers(tiers: StopTier[]): string {
+  return tiers
+    .map((t, i) => {
+      const label = i === tiers.length - 1 ? "rest" : `${t.sellPercent}%`;
+      return `$${formatPrice(t.price)}→${label}${t.filled ? " ✅" : ""}`;
+    })
+    .join(" | ");
+}
+
+export function timeSince(timestamp: number): string {
+  return formatDuration(Date.now() - timestamp);
+}
+
+export function timeUntil(timestamp: number): string {
+  return formatDuration(Math.max(0, timestamp - Date.now()));
+}
+
+/** "45s", "12m", "5h 3m", "2d 4h" */
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ${hours % 24}h`;
+}
+
+const SPARK_BLOCKS = "▁▂▃▄▅▆▇█";
+
+/** One block character per value, scaled between the series' min and max */
+export function formatSparkline(values: number[]): string {
+  if (values.length === 0) return "";
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+  return values
+    .map((v) => SPARK_BLOCKS[range > 0 ? Math.round(((v - min) / range) * (SPARK_BLOCKS.length - 1)) : 3])
+    .join("");
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { config } from "../src/config/index.js";
+import { createOnChainSource, getTokenQuotes, registerPriceSource } from "../src/pricing/index.js";
+import { addr, createStubChain } from "./stub-chain.js";
+
+const USDC = addr(0x5000);
+const WETH = addr(0x6000);
+
+// On-chain reads go to the stub chain instead of the wallet's RPC client
+const chain = createStubChain();
+chain.token(USDC, 6);
+chain.token(WETH, 18);
+registerPriceSource({
+  ...createOnChainSource({ client: chain.client, venues: chain.venues, usdc: USDC, weth: WETH }),
+  name: "onchain-stub",
+});
+config.priceSources = ["dexscreener", "onchain-stub"];
+
+const realFetch = globalThis.fetch;
+let dexScreenerRequests = 0;
+
+/** Answer DexScreener token lookups with the given pairs, or an HTTP error status */
+function stubDexScreener(respond: (tokens: string[]) => unknown[] | number): void {
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    dexScreenerRequests++;
+    const url = String(input);
+    const tokens = url.slice(url.lastIndexOf("/") + 1).split(",");
+    const body = respond(tokens);
+    return typeof body === "number"
+      ? new Response("", { status: body, statusText: "Service Unavailable" })
+      : Response.json(body);
+  }) as typeof fetch;
+}
+
+function dexScreenerPair(token: string, priceUsd: number) {
+  return {
+    chainId: "base",
+    dexId: "uniswap",
+    url: `https://dexscreener.com/base/${token}`,
+    pairAddress: addr(0xd000),
+    baseToken: { address: token, name: "Token", symbol: "TKN" },
+    quoteToken: { address: USDC, symbol: "USDC" },
+    priceUsd: String(priceUsd),
+    liquidity: { usd: 50_000 },
+  };
+}
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  dexScreenerRequests = 0;
+});
+
+// Each test uses fresh token addresses — DexScreener lookups are cached for a few seconds
+
+describe("getTokenQuotes failover", () => {
+  it("uses DexScreener while it answers", async () => {
+    const token = addr(0x1001);
+    chain.token(token, 18);
+    chain.pool("uniswap-v2", token, 1_000, USDC, 1_000);
+    stubDexScreener((tokens) => tokens.map((t) => dexScreenerPair(t, 0.9)));
+
+    const quotes = await getTokenQuotes([token]);
+
+    assert.equal(quotes.get(token)?.source, "dexscreener");
+    assert.equal(quotes.get(token)?.priceUsd, 0.9);
+  });
+
+  it("falls through to on-chain reads when DexScreener is down", async () => {
+    const token = addr(0x1002);
+    chain.token(token, 18);
+    chain.pool("uniswap-v2", token, 1_000, USDC, 2_000);
+    stubDexScreener(() => 503);
+
+    const quotes = await getTokenQuotes([token]);
+
+    assert.ok(dexScreenerRequests > 1, "DexScreener errors are retried before giving up");
+    assert.equal(quotes.get(token)?.source, "onchain");
+    assert.equal(quotes.get(token)?.priceUsd, 2);
+  });
+
+  it("only asks the next source for tokens DexScreener couldn't price", async () => {
+    const listed = addr(0x1003);
+    const unlisted = addr(0x1004);
+    chain.token(listed, 18);
+    chain.token(unlisted, 18);
+    chain.pool("uniswap-v2", listed, 1_000, USDC, 1_000);
+    chain.pool("uniswap-v2", unlisted, 1_000, USDC, 4_000);
+    stubDexScreener((tokens) => tokens.filter((t) => t === listed).map((t) => dexScreenerPair(t, 1.1)));
+
+    const quotes = await getTokenQuotes([listed, unlisted]);
+
+    assert.equal(quotes.get(listed)?.source, "dexscreener");
+    assert.equal(quotes.get(listed)?.priceUsd, 1.1);
+    assert.equal(quotes.get(unlisted)?.source, "onchain");
+    assert.equal(quotes.get(unlisted)?.priceUsd, 4);
+  });
+
+  it("returns nothing for a token no source can price", async () => {
+    stubDexScreener(() => 503);
+
+    const quotes = await getTokenQuotes([addr(0x1005)]);
+
+    assert.equal(quotes.size, 0);
+  });
+});
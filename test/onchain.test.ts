@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createOnChainSource } from "../src/pricing/index.js";
+import { addr, createStubChain } from "./stub-chain.js";
+
+const USDC = addr(0x5000);
+const WETH = addr(0x6000);
+/** Sorts before USDC and WETH, so it is token0 of its pools */
+const LOW = addr(0x1000);
+/** Sorts after USDC and WETH, so it is token1 of its pools */
+const HIGH = addr(0x7000);
+
+function setup() {
+  const chain = createStubChain();
+  chain.token(USDC, 6);
+  chain.token(WETH, 18);
+  chain.token(LOW, 18);
+  chain.token(HIGH, 9);
+  const source = createOnChainSource({ client: chain.client, venues: chain.venues, usdc: USDC, weth: WETH });
+  return { chain, source };
+}
+
+function assertClose(actual: number | undefined, expected: number, message?: string): void {
+  assert.ok(actual !== undefined, message ?? "value missing");
+  assert.ok(Math.abs(actual - expected) <= Math.abs(expected) * 1e-9, `${message ?? ""} expected ${expected}, got ${actual}`);
+}
+
+describe("on-chain price source", () => {
+  it("prices from Uniswap V2 reserves whichever side the token is on", async () => {
+    const { chain, source } = setup();
+    const lowPool = chain.pool("uniswap-v2", LOW, 1_000_000, USDC, 2_000);
+    chain.pool("uniswap-v2", HIGH, 500, USDC, 1_500);
+
+    const quotes = await source.getQuotes([LOW, HIGH]);
+
+    const low = quotes.get(LOW.toLowerCase());
+    assertClose(low?.priceUsd, 0.002);
+    assertClose(low?.liquidityUsd, 4_000);
+    assert.equal(low?.pairAddress, lowPool);
+    assert.equal(low?.source, "onchain");
+    assertClose(quotes.get(HIGH.toLowerCase())?.priceUsd, 3);
+  });
+
+  it("prices from Uniswap V3 slot0", async () => {
+    const { chain, source } = setup();
+    chain.pool("uniswap-v3", LOW, 40_000, USDC, 20_000, { fee: 500 });
+    chain.pool("uniswap-v3", HIGH, 1_000, USDC, 250, { fee: 10000 });
+
+    const quotes = await source.getQuotes([LOW, HIGH]);
+
+    assertClose(quotes.get(LOW.toLowerCase())?.priceUsd, 0.5);
+    assertClose(quotes.get(HIGH.toLowerCase())?.priceUsd, 0.25);
+  });
+
+  it("prices Aerodrome volatile pools from reserves and stable pools on the x³y + xy³ curve", async () => {
+    const { chain, source } = setup();
+    chain.pool("aerodrome", LOW, 10_000, USDC, 5_000, { stable: false });
+    chain.pool("aerodrome", HIGH, 1_000, USDC, 1_100, { stable: true });
+
+    const quotes = await source.getQuotes([LOW, HIGH]);
+
+    assertClose(quotes.get(LOW.toLowerCase())?.priceUsd, 0.5);
+    const [x, y] = [1_000, 1_100];
+    assertClose(quotes.get(HIGH.toLowerCase())?.priceUsd, (3 * x * x * y + y ** 3) / (x ** 3 + 3 * x * y * y));
+  });
+
+  it("converts WETH-quoted pools to USD through the WETH/USDC pool", async () => {
+    const { chain, source } = setup();
+    chain.pool("uniswap-v2", WETH, 100, USDC, 300_000);
+    chain.pool("uniswap-v3", LOW, 1_000_000, WETH, 10);
+
+    const quotes = await source.getQuotes([LOW]);
+
+    assertClose(quotes.get(LOW.toLowerCase())?.priceUsd, 0.03);
+    assert.equal(quotes.has(WETH.toLowerCase()), false, "WETH wasn't asked for");
+  });
+
+  it("quotes from the deepest pool and omits tokens without one", async () => {
+    const { chain, source } = setup();
+    chain.pool("uniswap-v2", LOW, 1_000, USDC, 2);
+    const deep = chain.pool("aerodrome", LOW, 1_000_000, USDC, 2_100);
+
+    const quotes = await source.getQuotes([LOW, HIGH]);
+
+    assert.equal(quotes.get(LOW.toLowerCase())?.pairAddress, deep);
+    assertClose(quotes.get(LOW.toLowerCase())?.priceUsd, 0.0021);
+    assert.equal(quotes.has(HIGH.toLowerCase()), false);
+  });
+
+  it("ranks pools by quote-side depth, so a one-sided position at an absurd price can't win", async () => {
+    const { chain, source } = setup();
+    const real = chain.pool("uniswap-v2", LOW, 10_000, USDC, 20_000);
+    // Holds a huge token balance and almost no USDC, quoting the token at $1000
+    chain.pool("uniswap-v3", LOW, 1_000_000, USDC, 0.01, { fee: 10000, price: 1_000 });
+
+    const quotes = await source.getQuotes([LOW]);
+
+    assert.equal(quotes.get(LOW.toLowerCase())?.pairAddress, real);
+    assertClose(quotes.get(LOW.toLowerCase())?.priceUsd, 2);
+    assertClose(quotes.get(LOW.toLowerCase())?.liquidityUsd, 40_000);
+  });
+
+  it("reads pinned V2, V3 and Aerodrome pairs directly", async () => {
+    const { chain, source } = setup();
+    chain.pool("uniswap-v2", WETH, 100, USDC, 300_000);
+    const shallow = chain.pool("uniswap-v2", LOW, 1_000, USDC, 2);
+    chain.pool("uniswap-v2", LOW, 1_000_000, USDC, 2_100);
+    const v3 = chain.pool("uniswap-v3", HIGH, 1_000, WETH, 1);
+    const stable = chain.pool("aerodrome", HIGH, 1_000, USDC, 1_000, { stable: true });
+
+    const quotes = await source.getPairQuotes!([
+      { token: LOW, pairAddress: shallow },
+      { token: HIGH, pairAddress: v3 },
+    ]);
+    assert.equal(quotes.get(LOW.toLowerCase())?.pairAddress, shallow);
+    assertClose(quotes.get(LOW.toLowerCase())?.priceUsd, 0.002);
+    assertClose(quotes.get(HIGH.toLowerCase())?.priceUsd, 3);
+
+    const stableQuotes = await source.getPairQuotes!([{ token: HIGH, pairAddress: stable }]);
+    assertClose(stableQuotes.get(HIGH.toLowerCase())?.priceUsd, 1);
+  });
+
+  it("ignores a pinned pair that doesn't hold the token", async () => {
+    const { chain, source } = setup();
+    const other = chain.pool("uniswap-v2", HIGH, 1_000, USDC, 2_000);
+
+    const quotes = await source.getPairQuotes!([{ token: LOW, pairAddress: other }]);
+
+    assert.equal(quotes.size, 0);
+  });
+});
@@ -0,0 +1,159 @@
+import { parseUnits, zeroAddress, type Address, type PublicClient } from "viem";
+import type { Venue } from "../src/pricing/index.js";
+
+// An in-memory stand-in for Base: ERC-20 balances plus Uniswap V2 / V3 and
+// Aerodrome factories and pools, answering the readContract calls the
+// on-chain price source makes. Unknown calls revert, like a real node would.
+
+// ── Types ──────────────────────────────────────────────────────────
+
+interface StubPool {
+  kind: Venue["kind"];
+  token0: Address;
+  token1: Address;
+  reserve0: bigint;
+  reserve1: bigint;
+  stable?: boolean;
+  /** V3 spot price as raw token1 per raw token0 (default: the balance ratio) */
+  rawPrice?: number;
+}
+
+interface ReadArgs {
+  address: Address;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+export interface StubChain {
+  client: () => PublicClient;
+  venues: Venue[];
+  /** Register a token and its decimals */
+  token(address: Address, decimals: number): void;
+  /**
+   * Create a pool holding `amount` of `token` and `quoteAmount` of `quote`
+   * (human units), so its price is quoteAmount / amount — unless `price` (quote
+   * per token) sets a V3 pool's spot price independently, like a one-sided
+   * concentrated position. Returns the pool address.
+   */
+  pool(
+    kind: Venue["kind"],
+    token: Address,
+    amount: number,
+    quote: Address,
+    quoteAmount: number,
+    options?: { fee?: number; stable?: boolean; price?: number }
+  ): Address;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────
+
+/** Deterministic address from a number */
+export function addr(n: number): Address {
+  return `0x${n.toString(16).padStart(40, "0")}` as Address;
+}
+
+const FACTORIES: Record<Venue["kind"], Address> = {
+  "uniswap-v2": addr(0xf2),
+  "uniswap-v3": addr(0xf3),
+  aerodrome: addr(0xfa),
+};
+
+function revert(call: ReadArgs): never {
+  throw new Error(`execution reverted: ${call.functionName} on ${call.address}`);
+}
+
+// ── Stub ───────────────────────────────────────────────────────────
+
+export function createStubChain(): StubChain {
+  const decimals = new Map<string, number>();
+  const pools = new Map<string, StubPool>();
+  /** "<factory>:<token0>:<token1>:<fee or stable>" → pool address */
+  const registry = new Map<string, Address>();
+  let nextPool = 0x9000;
+
+  const registryKey = (factory: Address, a: Address, b: Address, extra: unknown) => {
+    const [t0, t1] = [a.toLowerCase(), b.toLowerCase()].sort();
+    return `${factory.toLowerCase()}:${t0}:${t1}:${String(extra ?? "")}`;
+  };
+
+  function balanceOf(token: Address, holder: Address): bigint {
+    const pool = pools.get(holder.toLowerCase());
+    if (!pool) return 0n;
+    if (pool.token0.toLowerCase() === token.toLowerCase()) return pool.reserve0;
+    if (pool.token1.toLowerCase() === token.toLowerCase()) return pool.reserve1;
+    return 0n;
+  }
+
+  async function readContract(call: ReadArgs): Promise<unknown> {
+    const key = call.address.toLowerCase();
+    const args = call.args ?? [];
+
+    if (call.functionName === "decimals") {
+      return decimals.get(key) ?? revert(call);
+    }
+    if (call.functionName === "balanceOf") {
+      if (!decimals.has(key)) revert(call);
+      return balanceOf(call.address, args[0] as Address);
+    }
+
+    const factory = (Object.keys(FACTORIES) as Venue["kind"][]).find((k) => FACTORIES[k].toLowerCase() === key);
+    if (factory) {
+      const extra = factory === "uniswap-v2" ? undefined : args[2];
+      return registry.get(registryKey(call.address, args[0] as Address, args[1] as Address, extra)) ?? zeroAddress;
+    }
+
+    const pool = pools.get(key) ?? revert(call);
+    switch (call.functionName) {
+      case "token0":
+        return pool.token0;
+      case "token1":
+        return pool.token1;
+      case "getReserves":
+        return pool.kind === "uniswap-v3" ? revert(call) : [pool.reserve0, pool.reserve1, 0n];
+      case "stable":
+        return pool.kind === "aerodrome" ? pool.stable ?? false : revert(call);
+      case "slot0": {
+        if (pool.kind !== "uniswap-v3") revert(call);
+        // sqrt(token1 per token0, raw units) in Q64.96
+        const sqrtPrice = Math.sqrt(pool.rawPrice ?? Number(pool.reserve1) / Number(pool.reserve0));
+        return [BigInt(Math.round(sqrtPrice * 2 ** 96)), 0, 0, 0, 0, 0, true];
+      }
+      default:
+        return revert(call);
+    }
+  }
+
+  return {
+    client: () => ({ readContract }) as unknown as PublicClient,
+    venues: (Object.keys(FACTORIES) as Venue["kind"][]).map((kind) => ({ kind, factory: FACTORIES[kind] })),
+
+    token(address, tokenDecimals) {
+      decimals.set(address.toLowerCase(), tokenDecimals);
+    },
+
+    pool(kind, token, amount, quote, quoteAmount, options = {}) {
+      const address = addr(nextPool++);
+      const tokenRaw = parseUnits(String(amount), decimals.get(token.toLowerCase()) ?? 18);
+      const quoteRaw = parseUnits(String(quoteAmount), decimals.get(quote.toLowerCase()) ?? 18);
+      const tokenFirst = token.toLowerCase() < quote.toLowerCase();
+      let rawPrice: number | undefined;
+      if (options.price !== undefined) {
+        const quotePerTokenRaw = options.price * 10 ** ((decimals.get(quote.toLowerCase()) ?? 18) - (decimals.get(token.toLowerCase()) ?? 18));
+        rawPrice = tokenFirst ? quotePerTokenRaw : 1 / quotePerTokenRaw;
+      }
+
+      pools.set(address.toLowerCase(), {
+        kind,
+        token0: tokenFirst ? token : quote,
+        token1: tokenFirst ? quote : token,
+        reserve0: tokenFirst ? tokenRaw : quoteRaw,
+        reserve1: tokenFirst ? quoteRaw : tokenRaw,
+        stable: options.stable,
+        rawPrice,
+      });
+      const extra = kind === "uniswap-v3" ? options.fee ?? 3000 : kind === "aerodrome" ? options.stable ?? false : undefined;
+      registry.set(registryKey(FACTORIES[kind], token, quote, extra), address);
+      return address;
+    },
+  };
+}